@@ -0,0 +1,352 @@
+import { ProbeOpsClient } from './api-client.js';
+import { HistoryStore } from './history.js';
+import { MonitorManager } from './monitors.js';
+import { TokenStore } from './token-store.js';
+import { ProbeOpsError, GeoProxyResponse, GeoProxyTierLimits, CachedQuota, V1RunResponse, QuotaEstimate, PreflightResult } from './types.js';
+import { evaluatePreflight } from './preflight.js';
+
+// ── Token Cache (reuse tokens across geo_browse calls) ──────
+
+interface CachedToken {
+  data: GeoProxyResponse;
+  expiresAt: number; // Unix ms
+  extensionNotice?: string; // One-time notification after extend
+}
+
+/**
+ * Build a user-facing extension notice for quota awareness.
+ */
+function buildExtensionNotice(data: GeoProxyResponse): string {
+  const { consumed, quota, resets_at } = data.daily_usage;
+  return `Proxy session extended (+1 hour). ${consumed} of ${quota} daily hours used. Resets at ${resets_at} | Upgrade: https://probeops.com/pricing`;
+}
+
+/**
+ * The tier's maximum token lifetime from an API error refusing `requested`
+ * hours (e.g. "expires_in_hours exceeds your tier's maximum of 4"), or null
+ * when the error is about something else.
+ */
+function maxHoursFromTtlError(err: unknown, requested: number): number | null {
+  if (!(err instanceof ProbeOpsError) || (err.statusCode !== 400 && err.statusCode !== 422) || !err.detail) return null;
+  if (!/expires_in_hours|ttl|lifetime|hours/i.test(err.detail)) return null;
+  const max = Number(err.detail.match(/\d+/g)?.at(-1));
+  return max >= 1 && max < requested ? max : null;
+}
+
+// ── Quota Cache (passive awareness across all tools) ────────
+
+const DEFAULT_QUOTA_CACHE_TTL_MS = 60_000; // 60 seconds
+
+/**
+ * Per-API-key state: the API client, the quota and proxy token caches, and
+ * any scheduled monitors.
+ * In stdio mode there is exactly one account; in HTTP mode one is shared by
+ * every session that authenticates with the same ProbeOps API key.
+ */
+export class ProbeOpsAccount {
+  readonly client: ProbeOpsClient;
+  readonly history: HistoryStore | null;
+  readonly monitors: MonitorManager;
+  quotaCache: CachedQuota = {
+    diagnostic: null,
+    proxy: null,
+    fetchedAt: 0,
+  };
+  private cachedProxyToken: CachedToken | null = null;
+  private tokenMutex: Promise<void> | null = null;
+  // From the most recent token response; null until a token has been seen
+  private tierLimits: GeoProxyTierLimits | null = null;
+  private readonly quotaCacheTtlMs: number;
+  private readonly tokenStore: TokenStore | null;
+  // Whether the store holds the cached token (false after a failed write)
+  private tokenPersisted = false;
+
+  constructor(client: ProbeOpsClient, history: HistoryStore | null = null, quotaCacheTtlMs = DEFAULT_QUOTA_CACHE_TTL_MS, tokenStore: TokenStore | null = null) {
+    this.client = client;
+    this.history = history;
+    this.quotaCacheTtlMs = quotaCacheTtlMs;
+    this.tokenStore = tokenStore;
+    this.monitors = new MonitorManager(this);
+  }
+
+  /**
+   * Load a still-valid proxy token saved by an earlier run or by another
+   * server process, so geo_browse can reuse it without spending quota.
+   */
+  async restoreProxyToken(): Promise<void> {
+    await this.syncTokenFromStore();
+    const active = this.getActiveToken();
+    if (active) {
+      process.stderr.write(`[probeops] Restored proxy token ${active.token_id} from cache (expires ${active.expires_at})\n`);
+    }
+  }
+
+  /**
+   * Get a valid proxy token with 3-tier logic:
+   * 1. > 5 min remaining → reuse cached (no quota cost)
+   * 2. 0-5 min remaining → extend existing token (+1 quota unit)
+   * 3. Expired/no cache → generate new token (1 quota unit)
+   *
+   * A single token works across ALL regions (allowed_regions: ["*"]).
+   * Uses a mutex to prevent parallel calls from generating duplicate tokens.
+   */
+  getOrCreateProxyToken(region: string): Promise<GeoProxyResponse> {
+    return this.withTokenLock(() => this.getOrCreateProxyTokenImpl(region));
+  }
+
+  /**
+   * Run token operations one at a time, so parallel calls never generate
+   * duplicate tokens or extend a token that is being replaced. With a token
+   * store the same holds across processes: the store's file lock is held
+   * too, the cache is refreshed from the file first, and any change is
+   * written back before the lock is released.
+   */
+  private withTokenLock<T>(fn: () => Promise<T>): Promise<T> {
+    const store = this.tokenStore;
+    const locked = store ? () => store.withLock(async () => {
+      await this.syncTokenFromStore();
+      const before = this.cachedProxyToken?.data;
+      try {
+        return await fn();
+      } finally {
+        if (this.cachedProxyToken?.data !== before) await this.persistToken(store);
+      }
+    }) : fn;
+    const result = (this.tokenMutex ?? Promise.resolve()).then(locked);
+    const done = result.then(() => {}, () => {});
+    this.tokenMutex = done;
+    done.then(() => { if (this.tokenMutex === done) this.tokenMutex = null; });
+    return result;
+  }
+
+  /**
+   * Adopt the stored token when it differs from the cached one: another
+   * process may have generated, extended or revoked it since. An empty
+   * store only clears the cache when the cached token had been saved there;
+   * an unreadable or unwritable store never does.
+   */
+  private async syncTokenFromStore(): Promise<void> {
+    if (!this.tokenStore) return;
+    let stored: GeoProxyResponse | null;
+    try {
+      stored = await this.tokenStore.read();
+    } catch (err) {
+      process.stderr.write(`[probeops] Cannot read proxy token cache: ${err instanceof Error ? err.message : err}\n`);
+      return;
+    }
+    const cached = this.cachedProxyToken?.data;
+    if (stored?.token_id === cached?.token_id && stored?.expires_at === cached?.expires_at) return;
+    if (stored) {
+      this.cachedProxyToken = { data: stored, expiresAt: new Date(stored.expires_at).getTime() };
+      this.tierLimits = stored.tier_limits ?? this.tierLimits;
+      this.tokenPersisted = true;
+    } else if (this.tokenPersisted) {
+      this.cachedProxyToken = null;
+    }
+  }
+
+  /** A failed write is logged; the in-memory token is kept and reused */
+  private async persistToken(store: TokenStore): Promise<void> {
+    try {
+      await store.write(this.cachedProxyToken?.data ?? null);
+      this.tokenPersisted = true;
+    } catch (err) {
+      this.tokenPersisted = false;
+      process.stderr.write(`[probeops] Failed to save proxy token cache: ${err instanceof Error ? err.message : err}\n`);
+    }
+  }
+
+  private cacheToken(data: GeoProxyResponse, extensionNotice?: string): void {
+    this.cachedProxyToken = { data, expiresAt: new Date(data.expires_at).getTime(), extensionNotice };
+    this.tierLimits = data.tier_limits ?? this.tierLimits;
+    this.quotaCache.proxy = data.daily_usage;
+    this.quotaCache.fetchedAt = Date.now();
+  }
+
+  private async getOrCreateProxyTokenImpl(region: string): Promise<GeoProxyResponse> {
+    const now = Date.now();
+
+    if (this.cachedProxyToken) {
+      const remaining = this.cachedProxyToken.expiresAt - now;
+
+      // Tier 1: > 5 minutes remaining — reuse as-is (no quota cost)
+      if (remaining > 5 * 60 * 1000) {
+        const remainMin = Math.round(remaining / 60000);
+        process.stderr.write(`[probeops] Reusing cached proxy token ${this.cachedProxyToken.data.token_id} (${remainMin} min remaining, no quota consumed)\n`);
+        return this.cachedProxyToken.data;
+      }
+
+      // Tier 2: 0-5 minutes remaining — try to extend
+      if (remaining > 0) {
+        try {
+          process.stderr.write(`[probeops] Token ${this.cachedProxyToken.data.token_id} nearing expiry (${Math.round(remaining / 60000)} min), extending (+1 quota)\n`);
+          const data = await this.client.extendProxyToken(this.cachedProxyToken.data.token_id);
+          // Also refreshes the quota cache with daily_usage from the extend response
+          this.cacheToken(data, buildExtensionNotice(data));
+          process.stderr.write(`[probeops] Token ${data.token_id} extended, expires ${data.expires_at}, quota ${data.daily_usage.consumed}/${data.daily_usage.quota}\n`);
+          return data;
+        } catch (err) {
+          // Extend failed (expired between check and call, quota exhausted, etc.)
+          // Fall through to generate
+          const msg = err instanceof Error ? err.message : String(err);
+          process.stderr.write(`[probeops] Extend failed (${msg}), falling back to generate\n`);
+        }
+      }
+    }
+
+    // Tier 3: No cache, expired, or extend failed — generate new token
+    process.stderr.write(`[probeops] Generating new proxy token (1 daily quota consumed)\n`);
+    const data = await this.client.getGeoProxy({ region });
+    this.cacheToken(data);
+    process.stderr.write(`[probeops] Token ${data.token_id} created, expires ${data.expires_at}, quota ${data.daily_usage.consumed}/${data.daily_usage.quota}\n`);
+    return data;
+  }
+
+  /**
+   * Generate a token with an explicit lifetime and label. The lifetime is
+   * capped at the tier's max_token_ttl_hours when it is known; before any
+   * token response has shown it, a request the API refuses as too long is
+   * retried once at the maximum the error names. The new token replaces the
+   * cached one, so geo_browse reuses it.
+   */
+  createProxyToken(region: string, ttlHours: number, label?: string): Promise<{ data: GeoProxyResponse; requestedHours: number; grantedHours: number }> {
+    return this.withTokenLock(async () => {
+      let grantedHours = this.cappedTokenHours(ttlHours);
+      process.stderr.write(`[probeops] Generating ${grantedHours}h proxy token${label ? ` "${label}"` : ''} (${grantedHours} daily quota consumed)\n`);
+      let data: GeoProxyResponse;
+      try {
+        data = await this.client.getGeoProxy({ region, expires_in_hours: grantedHours, label });
+      } catch (err) {
+        const maxHours = this.tierLimits ? null : maxHoursFromTtlError(err, grantedHours);
+        if (maxHours === null) throw err;
+        process.stderr.write(`[probeops] ${grantedHours}h exceeds the tier's token lifetime, retrying with ${maxHours}h\n`);
+        grantedHours = maxHours;
+        data = await this.client.getGeoProxy({ region, expires_in_hours: grantedHours, label });
+      }
+      this.cacheToken(data);
+      process.stderr.write(`[probeops] Token ${data.token_id} created, expires ${data.expires_at}, quota ${data.daily_usage.consumed}/${data.daily_usage.quota}\n`);
+      return { data, requestedHours: ttlHours, grantedHours };
+    });
+  }
+
+  /**
+   * Revoke a token. If it is the one this account has cached, the cache is
+   * dropped so the next proxy call generates a fresh token.
+   */
+  revokeProxyToken(tokenId: string): Promise<{ wasCached: boolean }> {
+    return this.withTokenLock(async () => {
+      await this.client.revokeProxyToken(tokenId);
+      const wasCached = this.cachedProxyToken?.data.token_id === tokenId;
+      if (wasCached) this.cachedProxyToken = null;
+      process.stderr.write(`[probeops] Token ${tokenId} revoked${wasCached ? ' (was the cached token)' : ''}\n`);
+      return { wasCached };
+    });
+  }
+
+  /**
+   * Token lifetime the tier allows for a request. Until a token response has
+   * shown the tier's limit, the API is left to enforce it.
+   */
+  cappedTokenHours(ttlHours: number): number {
+    const maxHours = this.tierLimits?.max_token_ttl_hours;
+    return maxHours ? Math.min(ttlHours, maxHours) : ttlHours;
+  }
+
+  /** Tier limits from the most recent token response, if any */
+  getTierLimits(): GeoProxyTierLimits | null {
+    return this.tierLimits;
+  }
+
+  /**
+   * Summary of the cached proxy token, or null if none is active.
+   */
+  getActiveToken(): { token_id: string; expires_at: string; allowed_regions: string[] } | null {
+    const cached = this.cachedProxyToken;
+    if (!cached || cached.expiresAt <= Date.now()) return null;
+    return {
+      token_id: cached.data.token_id,
+      expires_at: cached.data.expires_at,
+      allowed_regions: cached.data.allowed_regions || [cached.data.region],
+    };
+  }
+
+  /**
+   * Proxy hours the next token request would consume: 0 while the cached
+   * token has more than 5 minutes left, otherwise 1 (extend or generate).
+   */
+  proxyHoursNeeded(): number {
+    const cached = this.cachedProxyToken;
+    return cached && cached.expiresAt - Date.now() > 5 * 60 * 1000 ? 0 : 1;
+  }
+
+  /**
+   * Check an estimated cost against the remaining quota before starting.
+   * Uses the cached quota when it is fresh.
+   */
+  async preflight(estimate: QuotaEstimate): Promise<PreflightResult> {
+    try {
+      await this.refreshQuotaCache();
+    } catch { /* evaluate against whatever is cached */ }
+    return evaluatePreflight(this.quotaCache, estimate);
+  }
+
+  async refreshQuotaCache(force = false): Promise<CachedQuota> {
+    if (!force && Date.now() - this.quotaCache.fetchedAt < this.quotaCacheTtlMs) {
+      return this.quotaCache;
+    }
+    const [diagResult, proxyResult] = await Promise.allSettled([
+      this.client.getQuota(),
+      this.client.getProxyDailyUsage(),
+    ]);
+    this.quotaCache = {
+      diagnostic: diagResult.status === 'fulfilled' ? diagResult.value : this.quotaCache.diagnostic,
+      proxy: proxyResult.status === 'fulfilled' ? proxyResult.value : this.quotaCache.proxy,
+      fetchedAt: Date.now(),
+    };
+    return this.quotaCache;
+  }
+
+  buildQuotaFooter(category: 'diagnostic' | 'proxy'): string {
+    const q = this.quotaCache;
+    const parts: string[] = [];
+
+    if (category === 'diagnostic' && q.diagnostic) {
+      const d = q.diagnostic;
+      parts.push(`Diagnostics: ${d.remaining.day} of ${d.limits.day} remaining today (${d.tier})`);
+    }
+
+    if (category === 'proxy') {
+      // Show one-time extension notice (cleared after first display)
+      if (this.cachedProxyToken?.extensionNotice) {
+        parts.push(this.cachedProxyToken.extensionNotice);
+        this.cachedProxyToken.extensionNotice = undefined;
+      }
+      if (q.proxy) {
+        const remaining = q.proxy.quota - q.proxy.consumed;
+        parts.push(`Proxy hours: ${remaining} of ${q.proxy.quota} remaining today`);
+      }
+      if (this.cachedProxyToken && this.cachedProxyToken.expiresAt > Date.now()) {
+        const minsLeft = Math.round((this.cachedProxyToken.expiresAt - Date.now()) / 60000);
+        parts.push(`Active token: ${minsLeft} min remaining`);
+      }
+    }
+
+    if (parts.length === 0) return '';
+    return '\n---\n' + parts.join(' | ');
+  }
+
+  // ── V1 Quota Update Helper ─────────────────────────────────
+
+  updateQuotaFromV1(data: V1RunResponse): void {
+    if (data.quota) {
+      this.quotaCache.diagnostic = {
+        can_execute: true,
+        tier: data.quota.tier,
+        limits: data.quota.limits,
+        usage: data.quota.usage,
+        remaining: data.quota.available,
+      };
+      this.quotaCache.fetchedAt = Date.now();
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import {
   ProbeOpsConfig,
   ProbeOpsError,
+  FetchFn,
+  RetryOptions,
+  ProbeRegion,
+  DnsRecordType,
   SslCheckRequest,
   SslCheckResponse,
   DnsLookupRequest,
@@ -16,23 +20,122 @@ import {
   GeoProxyRequest,
   GeoProxyResponse,
   GeoProxyDailyUsage,
+  ProxyTokenListResponse,
   RegionsResponse,
   QuotaResponse,
   V1RunResponse,
 } from './types.js';
 
 const DEFAULT_BASE_URL = 'https://probeops.com';
+const DEFAULT_REQUEST_TIMEOUT_MS = 45_000;
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 60_000,
+  maxElapsedMs: 60_000,
+};
+
+// Transient gateway errors worth retrying (plus 429, handled separately)
+const RETRYABLE_STATUS = new Set([502, 503, 504]);
+
+// Which failures a request may be repeated after (see request())
+type RetryOn = 'any' | 'gateway' | 'rate_limit';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 export class ProbeOpsClient {
   private apiKey: string;
   private baseUrl: string;
+  private retry: Required<RetryOptions>;
+  private requestTimeoutMs: number;
+  private defaultRegions?: ProbeRegion[];
+  private defaultRecordType: DnsRecordType;
+  private onRun?: (data: V1RunResponse) => void;
+  private fetchFn: FetchFn;
 
   constructor(config: ProbeOpsConfig) {
     this.apiKey = config.apiKey;
     this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.retry = {
+      maxRetries: config.retry?.maxRetries ?? DEFAULT_RETRY.maxRetries,
+      baseDelayMs: config.retry?.baseDelayMs ?? DEFAULT_RETRY.baseDelayMs,
+      maxDelayMs: config.retry?.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs,
+      maxElapsedMs: config.retry?.maxElapsedMs ?? DEFAULT_RETRY.maxElapsedMs,
+    };
+    this.requestTimeoutMs = config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.defaultRegions = config.defaultRegions;
+    this.defaultRecordType = config.defaultRecordType ?? 'A';
+    this.onRun = config.onRun;
+    this.fetchFn = config.fetch ?? fetch;
   }
 
-  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+  /**
+   * Send a request, retrying with jittered exponential backoff. What is
+   * retried depends on `retryOn`:
+   * - 'any' (default for GET and DELETE): rate limits (429), gateway errors
+   *   (502/503/504) and network failures
+   * - 'gateway' (diagnostic runs): 429 and 502/503/504, which the gateway
+   *   returns before the run is accepted; a dropped connection may come after
+   *   the run started, so it is not repeated
+   * - 'rate_limit' (default for other methods, e.g. generating a token): 429 only
+   * Other 4xx responses and timeouts are thrown immediately, and no retry
+   * starts once maxElapsedMs has passed.
+   */
+  private async request<T>(method: string, path: string, body?: unknown, retryOn: RetryOn = method === 'GET' || method === 'DELETE' ? 'any' : 'rate_limit'): Promise<T> {
+    const startedAt = Date.now();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.requestOnce<T>(method, path, body);
+      } catch (err) {
+        if (attempt >= this.retry.maxRetries || !this.isRetryable(err, retryOn)) throw err;
+        const delay = this.retryDelay(err, attempt);
+        if (delay === null || Date.now() - startedAt + delay > this.retry.maxElapsedMs) throw err;
+        const reason = err instanceof ProbeOpsError ? `HTTP ${err.statusCode}` : (err instanceof Error ? err.message : String(err));
+        process.stderr.write(`[probeops] ${method} ${path} failed (${reason}), retrying in ${delay}ms (${attempt + 1}/${this.retry.maxRetries})\n`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private isRetryable(err: unknown, retryOn: RetryOn): boolean {
+    if (err instanceof ProbeOpsError) {
+      // A 429 is refused before the server does anything, so it is always safe to repeat
+      return err.statusCode === 429 || (retryOn !== 'rate_limit' && RETRYABLE_STATUS.has(err.statusCode));
+    }
+    // fetch() rejects with a TypeError on connection failures; our own
+    // AbortSignal.timeout() rejects with a TimeoutError, which is not retried
+    // so a hung backend cannot stall a tool call for several timeouts.
+    return retryOn === 'any' && err instanceof TypeError;
+  }
+
+  /**
+   * Milliseconds to wait before the next attempt, or null to give up because
+   * the server asked us to wait longer than maxDelayMs.
+   */
+  private retryDelay(err: unknown, attempt: number): number | null {
+    if (err instanceof ProbeOpsError) {
+      let serverDelayMs: number | undefined;
+      if (err.retryAfter !== undefined && !Number.isNaN(err.retryAfter)) {
+        serverDelayMs = err.retryAfter * 1000;
+      } else if (err.rateLimitInfo && err.rateLimitInfo.remaining <= 0 && !Number.isNaN(err.rateLimitInfo.reset)) {
+        // X-RateLimit-Reset is either a Unix timestamp or seconds until reset
+        const reset = err.rateLimitInfo.reset;
+        serverDelayMs = reset > 1_000_000_000 ? reset * 1000 - Date.now() : reset * 1000;
+      }
+      if (serverDelayMs !== undefined) {
+        if (serverDelayMs > this.retry.maxDelayMs) return null;
+        // Small jitter so parallel callers don't retry in lockstep
+        return Math.max(0, Math.round(serverDelayMs + Math.random() * 250));
+      }
+    }
+    const backoff = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return Math.round(backoff / 2 + Math.random() * backoff / 2);
+  }
+
+  private async requestOnce<T>(method: string, path: string, body?: unknown): Promise<T> {
     const url = `${this.baseUrl}${path}`;
     const headers: Record<string, string> = {
       'X-API-Key': this.apiKey,
@@ -40,11 +143,11 @@ export class ProbeOpsClient {
       'User-Agent': 'probeops-mcp-server/1.0.0',
     };
 
-    const response = await fetch(url, {
+    const response = await this.fetchFn(url, {
       method,
       headers,
       body: body ? JSON.stringify(body) : undefined,
-      signal: AbortSignal.timeout(45000),
+      signal: AbortSignal.timeout(this.requestTimeoutMs),
     });
 
     if (!response.ok) {
@@ -87,39 +190,51 @@ export class ProbeOpsClient {
       );
     }
 
+    // DELETE endpoints may answer with no body
+    if (response.status === 204) return undefined as T;
     return response.json() as Promise<T>;
   }
 
   // ── API v1 Generic Method ────────────────────────────────
 
-  async run(tool: string, target: string, params: Record<string, unknown> = {}): Promise<V1RunResponse> {
-    return this.request<V1RunResponse>('POST', '/api/v1/run', { tool, target, params });
+  /**
+   * Run a diagnostic tool. `regions` limits the run to a subset of probe
+   * regions; when omitted the configured default regions are used, or every
+   * region the tier allows.
+   */
+  async run(tool: string, target: string, params: Record<string, unknown> = {}, regions?: ProbeRegion[]): Promise<V1RunResponse> {
+    const body: Record<string, unknown> = { tool, target, params };
+    const selected = regions && regions.length > 0 ? regions : this.defaultRegions;
+    if (selected && selected.length > 0) body.regions = [...new Set(selected)];
+    const data = await this.request<V1RunResponse>('POST', '/api/v1/run', body, 'gateway');
+    this.onRun?.(data);
+    return data;
   }
 
   // ── Tool Methods (thin wrappers over v1/run) ───────────
 
   async sslCheck(params: SslCheckRequest): Promise<V1RunResponse> {
-    return this.run('ssl_check', params.domain);
+    return this.run('ssl_check', params.domain, {}, params.regions);
   }
 
   async dnsLookup(params: DnsLookupRequest): Promise<V1RunResponse> {
-    return this.run('dns_lookup', params.domain, { record_type: params.record_type || 'A' });
+    return this.run('dns_lookup', params.domain, { record_type: params.record_type || this.defaultRecordType }, params.regions);
   }
 
   async isItDown(params: IsItDownRequest): Promise<V1RunResponse> {
-    return this.run('is_it_down', params.url);
+    return this.run('is_it_down', params.url, {}, params.regions);
   }
 
   async latencyTest(params: LatencyTestRequest): Promise<V1RunResponse> {
-    return this.run('latency_test', params.target);
+    return this.run('latency_test', params.target, {}, params.regions);
   }
 
   async traceroute(params: TracerouteRequest): Promise<V1RunResponse> {
-    return this.run('traceroute', params.target, { protocol: params.protocol || 'tcp' });
+    return this.run('traceroute', params.target, { protocol: params.protocol || 'tcp' }, params.regions);
   }
 
   async portCheck(params: PortCheckRequest): Promise<V1RunResponse> {
-    return this.run('port_check', params.target, { port: params.port });
+    return this.run('port_check', params.target, { port: params.port }, params.regions);
   }
 
   async getGeoProxy(params: GeoProxyRequest): Promise<GeoProxyResponse> {
@@ -147,4 +262,13 @@ export class ProbeOpsClient {
   async extendProxyToken(tokenId: string): Promise<GeoProxyResponse> {
     return this.request<GeoProxyResponse>('POST', `/api/forward-proxy/tokens/${tokenId}/extend`);
   }
+
+  /** Every proxy token on the account, including ones other clients created */
+  async listProxyTokens(): Promise<ProxyTokenListResponse> {
+    return this.request<ProxyTokenListResponse>('GET', '/api/forward-proxy/tokens');
+  }
+
+  async revokeProxyToken(tokenId: string): Promise<void> {
+    await this.request<unknown>('DELETE', `/api/forward-proxy/tokens/${encodeURIComponent(tokenId)}`);
+  }
 }
@@ -0,0 +1,184 @@
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { PROBE_REGIONS, DNS_RECORD_TYPES, ProbeRegion, DnsRecordType, RegionGeo } from './types.js';
+
+export const DEFAULT_CONFIG_PATH = join(homedir(), '.config', 'probeops', 'config.json');
+
+// ── Schema ──────────────────────────────────────────────────
+
+const PROFILE_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+const profileSchema = z.object({
+  api_key: z.string().min(1).optional(),
+  /** Read the key from this environment variable instead of the file */
+  api_key_env: z.string().min(1).optional(),
+  base_url: z.url().optional(),
+}).strict().refine((p) => (p.api_key === undefined) !== (p.api_key_env === undefined), {
+  message: 'set exactly one of "api_key" or "api_key_env"',
+});
+
+const regionGeoSchema = z.object({
+  timezone: z.string().min(1),
+  locale: z.string().min(1),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  location: z.string().min(1),
+}).strict();
+
+// Every setting is optional; unset ones keep the built-in default
+const settingsShape = {
+  request_timeout_ms: z.number().int().min(1000).max(600_000).optional(),
+  page_timeout_ms: z.number().int().min(1000).max(600_000).optional(),
+  user_agent: z.string().min(1).optional(),
+  max_content_chars: z.number().int().min(100).max(1_000_000).optional(),
+  quota_cache_ttl_ms: z.number().int().min(0).max(3_600_000).optional(),
+  max_retries: z.number().int().min(0).max(10).optional(),
+  default_regions: z.array(z.enum(PROBE_REGIONS)).min(1).optional(),
+  default_record_type: z.enum(DNS_RECORD_TYPES).optional(),
+  /** Per-region overrides of the geo_browse emulation (timezone, locale, geolocation) */
+  region_config: z.partialRecord(z.enum(PROBE_REGIONS), regionGeoSchema.partial()).optional(),
+  /** Keep the geo-proxy token in a file shared by restarts and other server processes */
+  persist_proxy_token: z.boolean().optional(),
+  token_cache_dir: z.string().min(1).optional(),
+  /** Where geo_browse writes HAR files when asked to */
+  har_dir: z.string().min(1).optional(),
+};
+
+const configFileSchema = z.object({
+  ...settingsShape,
+  default_profile: z.string().optional(),
+  profiles: z.record(z.string(), profileSchema).default({}),
+}).strict().refine((c) => Object.keys(c.profiles).every((name) => PROFILE_NAME.test(name)), {
+  message: 'profile names may only use letters, digits, "-" and "_"',
+  path: ['profiles'],
+}).refine((c) => c.default_profile === undefined || c.default_profile in c.profiles, {
+  message: '"default_profile" must name one of the configured profiles',
+  path: ['default_profile'],
+});
+
+export type ConfigFile = z.infer<typeof configFileSchema>;
+
+/** Tunable defaults after merging the config file with env overrides */
+export interface Settings {
+  requestTimeoutMs?: number;
+  pageTimeoutMs?: number;
+  userAgent?: string;
+  maxContentChars?: number;
+  quotaCacheTtlMs?: number;
+  maxRetries?: number;
+  defaultRegions?: ProbeRegion[];
+  defaultRecordType?: DnsRecordType;
+  regionConfig?: Partial<Record<ProbeRegion, Partial<RegionGeo>>>;
+  persistProxyToken?: boolean;
+  tokenCacheDir?: string;
+  harDir?: string;
+}
+
+// Environment variables that override a setting from the file
+const ENV_OVERRIDES: Record<string, { key: keyof typeof settingsShape; kind: 'number' | 'string' | 'list' | 'boolean' }> = {
+  PROBEOPS_REQUEST_TIMEOUT_MS: { key: 'request_timeout_ms', kind: 'number' },
+  PROBEOPS_PAGE_TIMEOUT_MS: { key: 'page_timeout_ms', kind: 'number' },
+  PROBEOPS_USER_AGENT: { key: 'user_agent', kind: 'string' },
+  PROBEOPS_MAX_CONTENT_CHARS: { key: 'max_content_chars', kind: 'number' },
+  PROBEOPS_QUOTA_CACHE_TTL_MS: { key: 'quota_cache_ttl_ms', kind: 'number' },
+  PROBEOPS_MAX_RETRIES: { key: 'max_retries', kind: 'number' },
+  PROBEOPS_DEFAULT_REGIONS: { key: 'default_regions', kind: 'list' },
+  PROBEOPS_DEFAULT_RECORD_TYPE: { key: 'default_record_type', kind: 'string' },
+  PROBEOPS_PERSIST_PROXY_TOKEN: { key: 'persist_proxy_token', kind: 'boolean' },
+  PROBEOPS_TOKEN_CACHE_DIR: { key: 'token_cache_dir', kind: 'string' },
+  PROBEOPS_HAR_DIR: { key: 'har_dir', kind: 'string' },
+};
+
+/** A named profile with its API key resolved */
+export interface Profile {
+  name: string;
+  apiKey: string;
+  baseUrl: string;
+}
+
+// ── Loading ─────────────────────────────────────────────────
+
+/**
+ * Read and validate the config file. A missing file at the default location
+ * is an empty config; a missing file the user pointed at explicitly is an
+ * error. Throws with every validation problem listed.
+ */
+export function loadConfigFile(path: string, explicit: boolean): ConfigFile {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf-8');
+  } catch (err) {
+    if (!explicit && (err as NodeJS.ErrnoException).code === 'ENOENT') return configFileSchema.parse({});
+    throw new Error(`Cannot read config file ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`Config file ${path} is not valid JSON: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const result = configFileSchema.safeParse(json);
+  if (!result.success) {
+    const problems = result.error.issues.map((i) => `  ${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(`Invalid config file ${path}:\n${problems.join('\n')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Resolve each configured profile's API key (inline or from the named
+ * environment variable). Profiles without a base URL use `defaultBaseUrl`.
+ */
+export function resolveProfiles(config: ConfigFile, defaultBaseUrl: string, env: NodeJS.ProcessEnv = process.env): Profile[] {
+  return Object.entries(config.profiles).map(([name, p]) => {
+    const apiKey = p.api_key ?? env[p.api_key_env!];
+    if (!apiKey) {
+      throw new Error(`Profile "${name}": environment variable ${p.api_key_env} is not set.`);
+    }
+    return { name, apiKey, baseUrl: p.base_url ?? defaultBaseUrl };
+  });
+}
+
+/**
+ * Merge the file's settings with environment overrides (env wins). Env
+ * values are validated against the same rules as the file.
+ */
+export function resolveSettings(config: ConfigFile, env: NodeJS.ProcessEnv = process.env): Settings {
+  const fromEnv: Record<string, unknown> = {};
+  for (const [name, { key, kind }] of Object.entries(ENV_OVERRIDES)) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+    fromEnv[key] = kind === 'number' ? Number(value)
+      : kind === 'list' ? value.split(',').map((v) => v.trim()).filter(Boolean)
+      : kind === 'boolean' ? ({ true: true, '1': true, false: false, '0': false }[value.toLowerCase()] ?? value)
+      : value;
+  }
+
+  const result = z.object(settingsShape).safeParse(fromEnv);
+  if (!result.success) {
+    const envName = (key: PropertyKey) => Object.keys(ENV_OVERRIDES).find((n) => ENV_OVERRIDES[n].key === key) ?? String(key);
+    const problems = result.error.issues.map((i) => `  ${envName(i.path[0])}: ${i.message}`);
+    throw new Error(`Invalid environment settings:\n${problems.join('\n')}`);
+  }
+
+  // Unset env variables are absent from result.data, so they don't mask the file
+  const merged = { ...config, ...result.data };
+  return {
+    requestTimeoutMs: merged.request_timeout_ms,
+    pageTimeoutMs: merged.page_timeout_ms,
+    userAgent: merged.user_agent,
+    maxContentChars: merged.max_content_chars,
+    quotaCacheTtlMs: merged.quota_cache_ttl_ms,
+    maxRetries: merged.max_retries,
+    defaultRegions: merged.default_regions,
+    defaultRecordType: merged.default_record_type,
+    regionConfig: merged.region_config,
+    persistProxyToken: merged.persist_proxy_token,
+    tokenCacheDir: merged.token_cache_dir,
+    harDir: merged.har_dir,
+  };
+}
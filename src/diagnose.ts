@@ -0,0 +1,356 @@
+import {
+  V1RunResponse,
+  ProbeOpsError,
+  DiagnosisCheck,
+  DiagnosisCheckResult,
+  LikelyCause,
+  RegionCheckState,
+  SiteDiagnosis,
+} from './types.js';
+import { analyzeDnsPropagation, parseTraceroute } from './parsers.js';
+
+export type RunFn = (tool: string, target: string, params: Record<string, unknown>) => Promise<V1RunResponse>;
+
+const CHECKS: DiagnosisCheck[] = ['http', 'dns', 'tls', 'tcp', 'traceroute'];
+const CONFIDENCE_RANK: Record<LikelyCause['confidence'], number> = { high: 0, medium: 1, low: 2 };
+const IPV4_RE = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+type RegionStates = Map<string, Record<DiagnosisCheck, RegionCheckState>>;
+
+interface CheckOutcome {
+  result: DiagnosisCheckResult;
+  data: V1RunResponse | null;
+}
+
+function errorMessage(err: unknown): string {
+  if (err instanceof ProbeOpsError) return `${err.statusCode}: ${err.detail || err.message}`;
+  return err instanceof Error ? err.message : String(err);
+}
+
+function list(regions: string[]): string {
+  return regions.join(', ');
+}
+
+// ── Per-check Evaluation ────────────────────────────────────
+
+function regionStates(states: RegionStates, region: string): Record<DiagnosisCheck, RegionCheckState> {
+  let entry = states.get(region);
+  if (!entry) {
+    entry = { http: 'skipped', dns: 'skipped', tls: 'skipped', tcp: 'skipped', traceroute: 'skipped' };
+    states.set(region, entry);
+  }
+  return entry;
+}
+
+function markSuccess(data: V1RunResponse, check: DiagnosisCheck, states: RegionStates): string[] {
+  const failed: string[] = [];
+  for (const r of data.regions_checked) {
+    regionStates(states, r.region)[check] = r.success ? 'ok' : 'fail';
+    if (!r.success) failed.push(r.region);
+  }
+  return failed;
+}
+
+function evaluateHttp(data: V1RunResponse, states: RegionStates): DiagnosisCheckResult {
+  const failed = markSuccess(data, 'http', states);
+  const status = data.global_status ?? (failed.length === 0 ? 'up' : 'down');
+  return {
+    check: 'http', tool: 'is_it_down', error: null,
+    status: failed.length === 0 ? 'ok' : 'issue',
+    summary: failed.length === 0 ? `Site ${status} from all regions` : `Site ${status}; failing from ${list(failed)}`,
+  };
+}
+
+function evaluateDns(data: V1RunResponse, states: RegionStates): DiagnosisCheckResult {
+  const analysis = analyzeDnsPropagation(data, null);
+  for (const f of analysis.failed_regions) regionStates(states, f.region).dns = 'fail';
+  for (const g of analysis.groups) {
+    for (const region of g.regions) {
+      regionStates(states, region).dns = g.answers.length === 0 ? 'fail'
+        : analysis.mismatched_regions.includes(region) ? 'mismatch' : 'ok';
+    }
+  }
+  const summary = analysis.groups
+    .map((g) => `${list(g.regions)} → ${g.answers.join(', ') || '(no answer)'}`)
+    .concat(analysis.failed_regions.map((f) => `${f.region} → error: ${f.error}`))
+    .join('; ');
+  return {
+    check: 'dns', tool: 'dns_lookup', error: null,
+    status: analysis.consistent && analysis.failed_regions.length === 0 && analysis.groups[0]?.answers.length ? 'ok' : 'issue',
+    summary: summary || 'No regions answered',
+  };
+}
+
+function evaluateTls(data: V1RunResponse, states: RegionStates): DiagnosisCheckResult {
+  const primary = data.certificate;
+  const issues: string[] = [];
+  for (const r of data.regions_checked) {
+    const cert = data.region_certificates?.find((rc) => rc.region === r.region)?.certificate;
+    let state: RegionCheckState = r.success ? 'ok' : 'fail';
+    if (r.success && cert) {
+      if (cert.is_expired || !cert.hostname_match || !cert.is_valid) state = 'fail';
+      else if (primary && cert.fingerprint !== primary.fingerprint) state = 'mismatch';
+    }
+    regionStates(states, r.region).tls = state;
+    if (state === 'fail') issues.push(`${r.region}: ${r.error || 'certificate rejected'}`);
+    if (state === 'mismatch') issues.push(`${r.region}: different certificate served`);
+  }
+  if (primary?.is_expired) issues.unshift(`certificate expired (${primary.valid_until})`);
+  else if (primary && !primary.hostname_match) issues.unshift(`certificate does not cover the hostname (CN ${primary.subject.common_name})`);
+  else if (primary && primary.days_until_expiry <= 7) issues.push(`certificate expires in ${primary.days_until_expiry} days`);
+  return {
+    check: 'tls', tool: 'ssl_check', error: null,
+    status: issues.length === 0 ? 'ok' : 'issue',
+    summary: issues.length === 0
+      ? `Valid certificate from ${primary?.issuer.organization || primary?.issuer.common_name || 'unknown issuer'}, ${primary?.days_until_expiry ?? '?'} days left`
+      : issues.join('; '),
+  };
+}
+
+function evaluateTcp(data: V1RunResponse, port: number, states: RegionStates): DiagnosisCheckResult {
+  const failed = markSuccess(data, 'tcp', states);
+  return {
+    check: 'tcp', tool: 'tcping', error: null,
+    status: failed.length === 0 ? 'ok' : 'issue',
+    summary: failed.length === 0 ? `Port ${port} accepts connections from all regions` : `Port ${port} unreachable from ${list(failed)}`,
+  };
+}
+
+function evaluateTraceroute(data: V1RunResponse, states: RegionStates, stops: Map<string, string>): DiagnosisCheckResult {
+  const unreached: string[] = [];
+  for (const r of data.regions_checked) {
+    if (!r.success || !r.result?.output) {
+      regionStates(states, r.region).traceroute = 'fail';
+      unreached.push(r.region);
+      continue;
+    }
+    const trace = parseTraceroute(r.region, r.result.output, data.target);
+    regionStates(states, r.region).traceroute = trace.reached ? 'ok' : 'fail';
+    if (!trace.reached) {
+      unreached.push(r.region);
+      const last = trace.last_responding_hop;
+      stops.set(r.region, last ? `hop ${last.hop} (${last.host})` : 'the first hop');
+    }
+  }
+  return {
+    check: 'traceroute', tool: 'traceroute', error: null,
+    status: unreached.length === 0 ? 'ok' : 'issue',
+    summary: unreached.length === 0
+      ? 'Path reaches the target from all regions'
+      : unreached.map((r) => `${r} stops at ${stops.get(r) ?? 'an unknown hop'}`).join('; '),
+  };
+}
+
+// ── Correlation ─────────────────────────────────────────────
+
+function regionsWhere(states: RegionStates, check: DiagnosisCheck, ...wanted: RegionCheckState[]): string[] {
+  return [...states].filter(([, s]) => wanted.includes(s[check])).map(([region]) => region);
+}
+
+function correlate(
+  host: string,
+  port: number,
+  states: RegionStates,
+  outcomes: Map<DiagnosisCheck, CheckOutcome>,
+  traceStops: Map<string, string>,
+): LikelyCause[] {
+  const causes: LikelyCause[] = [];
+  const evidenceFor = (check: DiagnosisCheck) => `${check}: ${outcomes.get(check)?.result.summary}`;
+  const ran = (check: DiagnosisCheck) => outcomes.get(check)?.data != null;
+  const all = [...states.keys()];
+  const traceNote = (regions: string[]) => regions
+    .filter((r) => traceStops.has(r))
+    .map((r) => `traceroute: ${r} stops at ${traceStops.get(r)}`);
+
+  const httpFail = regionsWhere(states, 'http', 'fail');
+  const dnsFail = regionsWhere(states, 'dns', 'fail');
+  const dnsOdd = regionsWhere(states, 'dns', 'mismatch');
+  const tlsFail = regionsWhere(states, 'tls', 'fail');
+  const tlsOdd = regionsWhere(states, 'tls', 'mismatch');
+  const tcpFail = regionsWhere(states, 'tcp', 'fail');
+  const tcpOk = new Set(regionsWhere(states, 'tcp', 'ok'));
+  const broken = new Set([...httpFail, ...tlsFail, ...tcpFail]);
+
+  // DNS
+  if (ran('dns') && dnsFail.length > 0) {
+    const everywhere = dnsFail.length === regionsWhere(states, 'dns', 'ok', 'mismatch', 'fail').length;
+    causes.push({
+      cause: everywhere ? `DNS for ${host} does not resolve` : `DNS for ${host} does not resolve from ${list(dnsFail)}`,
+      confidence: everywhere ? 'high' : 'medium',
+      regions: dnsFail,
+      evidence: [evidenceFor('dns'), ...(httpFail.length ? [evidenceFor('http')] : [])],
+    });
+  }
+  if (dnsOdd.length > 0) {
+    const affected = dnsOdd.filter((r) => broken.has(r));
+    const onlyThere = affected.length > 0 && [...broken].every((r) => dnsOdd.includes(r));
+    const failing = [
+      ...(affected.some((r) => tlsFail.includes(r)) ? ['TLS'] : []),
+      ...(affected.some((r) => tcpFail.includes(r)) ? ['TCP'] : []),
+      ...(affected.some((r) => httpFail.includes(r)) ? ['HTTP'] : []),
+    ];
+    causes.push(affected.length > 0
+      ? {
+        cause: `DNS resolves differently in ${list(affected)} and ${failing.join('/')} fails ${onlyThere ? 'only there' : 'there'}: stale record, split-horizon or geo-DNS pointing at a broken origin`,
+        confidence: onlyThere ? 'high' : 'medium',
+        regions: affected,
+        evidence: [evidenceFor('dns'), ...failing.map((f) => evidenceFor(f === 'TLS' ? 'tls' : f === 'TCP' ? 'tcp' : 'http'))],
+      }
+      : {
+        cause: `DNS answers differ in ${list(dnsOdd)} (propagation in progress or geo-DNS), but the site works there`,
+        confidence: 'low',
+        regions: dnsOdd,
+        evidence: [evidenceFor('dns')],
+      });
+  }
+
+  // TCP
+  const tcpFailResolved = tcpFail.filter((r) => !dnsFail.includes(r));
+  if (tcpFailResolved.length > 0) {
+    const everywhere = tcpFailResolved.length === all.filter((r) => !dnsFail.includes(r) && states.get(r)!.tcp !== 'skipped').length;
+    causes.push({
+      cause: everywhere
+        ? `Nothing accepts connections on ${host}:${port}: server down or a firewall dropping traffic`
+        : `${host}:${port} is unreachable from ${list(tcpFailResolved)} only: regional firewall, security-group or routing problem`,
+      confidence: everywhere ? 'high' : 'medium',
+      regions: tcpFailResolved,
+      evidence: [evidenceFor('tcp'), ...traceNote(tcpFailResolved)],
+    });
+  }
+
+  // TLS
+  const tls = outcomes.get('tls')?.data;
+  if (tls?.certificate?.is_expired) {
+    causes.push({ cause: 'TLS certificate has expired', confidence: 'high', regions: all, evidence: [evidenceFor('tls')] });
+  } else if (tls?.certificate && !tls.certificate.hostname_match) {
+    causes.push({ cause: `TLS certificate does not cover ${host}`, confidence: 'high', regions: all, evidence: [evidenceFor('tls')] });
+  }
+  const tlsOnly = tlsFail.filter((r) => tcpOk.has(r) && !dnsOdd.includes(r));
+  if (tlsOnly.length > 0 && !tls?.certificate?.is_expired && tls?.certificate?.hostname_match !== false) {
+    causes.push({
+      cause: `TLS handshake fails from ${list(tlsOnly)} although TCP connects: misconfigured edge node or TLS-intercepting middlebox`,
+      confidence: 'medium',
+      regions: tlsOnly,
+      evidence: [evidenceFor('tls'), evidenceFor('tcp')],
+    });
+  }
+  if (tlsOdd.length > 0) {
+    causes.push({
+      cause: `A different certificate is served in ${list(tlsOdd)}: inconsistent CDN or load-balancer configuration`,
+      confidence: 'low',
+      regions: tlsOdd,
+      evidence: [evidenceFor('tls')],
+    });
+  }
+
+  // HTTP (transport fine, application failing)
+  const appFail = httpFail.filter((r) => tcpOk.has(r) && states.get(r)!.tls !== 'fail' && !dnsOdd.includes(r));
+  if (appFail.length > 0) {
+    const everywhere = appFail.length === httpFail.length && httpFail.length === all.filter((r) => states.get(r)!.http !== 'skipped').length;
+    causes.push({
+      cause: `Server accepts connections${everywhere ? '' : ` from ${list(appFail)}`} but the HTTP check fails: application error, bad gateway or blocked by a WAF`,
+      confidence: everywhere ? 'high' : 'medium',
+      regions: appFail,
+      evidence: [evidenceFor('http'), evidenceFor('tcp')],
+    });
+  }
+
+  // Sub-checks that could not run
+  for (const { result } of outcomes.values()) {
+    if (result.status === 'error') {
+      causes.push({ cause: `${result.check} check could not run`, confidence: 'low', regions: [], evidence: [`${result.tool}: ${result.error}`] });
+    }
+  }
+
+  if (causes.every((c) => c.regions.length === 0)) {
+    causes.push({
+      cause: 'No fault seen from the probe regions; the problem may be local to the reporter (ISP, resolver cache, browser or VPN)',
+      confidence: 'low',
+      regions: [],
+      evidence: CHECKS.filter((c) => outcomes.get(c)?.result.status === 'ok').map(evidenceFor),
+    });
+  }
+
+  return causes.sort((a, b) =>
+    CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] || b.regions.length - a.regions.length);
+}
+
+// ── Diagnosis ───────────────────────────────────────────────
+
+function parseTarget(url: string) {
+  const parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+  const host = parsed.hostname;
+  const https = parsed.protocol === 'https:';
+  return {
+    parsed,
+    host,
+    https,
+    port: parsed.port ? Number(parsed.port) : https ? 443 : 80,
+    isIp: IPV4_RE.test(host) || host.includes(':'),
+  };
+}
+
+/**
+ * Diagnostic runs `diagnoseSite` will use for a URL.
+ */
+export function diagnosisRunCount(url: string): number {
+  const { https, isIp } = parseTarget(url);
+  return 3 + (isIp ? 0 : 1) + (https ? 1 : 0);
+}
+
+/**
+ * Run HTTP, DNS, TLS, TCP and traceroute checks against a URL in parallel
+ * and correlate them per region into a ranked list of likely causes.
+ * Uses up to five diagnostic runs (DNS is skipped for IP hosts, TLS for
+ * plain HTTP).
+ */
+export async function diagnoseSite(url: string, run: RunFn): Promise<SiteDiagnosis> {
+  const { parsed, host, https, port, isIp } = parseTarget(url);
+
+  const jobs: Record<DiagnosisCheck, { tool: string; promise: Promise<V1RunResponse> | null }> = {
+    http: { tool: 'is_it_down', promise: run('is_it_down', parsed.href, {}) },
+    dns: { tool: 'dns_lookup', promise: isIp ? null : run('dns_lookup', host, { record_type: 'A' }) },
+    tls: { tool: 'ssl_check', promise: https ? run('ssl_check', host, {}) : null },
+    tcp: { tool: 'tcping', promise: run('tcping', host, { port }) },
+    traceroute: { tool: 'traceroute', promise: run('traceroute', host, { protocol: 'tcp' }) },
+  };
+  const settled = await Promise.allSettled(CHECKS.map((c) => jobs[c].promise ?? Promise.resolve(null)));
+
+  const states: RegionStates = new Map();
+  const traceStops = new Map<string, string>();
+  const outcomes = new Map<DiagnosisCheck, CheckOutcome>();
+  let runs = 0;
+
+  CHECKS.forEach((check, i) => {
+    const tool = jobs[check].tool;
+    const s = settled[i];
+    if (s.status === 'rejected') {
+      outcomes.set(check, { data: null, result: { check, tool, status: 'error', summary: 'Check failed to run', error: errorMessage(s.reason) } });
+      return;
+    }
+    const data = s.value;
+    if (!data) {
+      const why = check === 'dns' ? 'target is an IP address' : 'URL is not HTTPS';
+      outcomes.set(check, { data: null, result: { check, tool, status: 'skipped', summary: `Skipped: ${why}`, error: null } });
+      return;
+    }
+    runs++;
+    const result = check === 'http' ? evaluateHttp(data, states)
+      : check === 'dns' ? evaluateDns(data, states)
+      : check === 'tls' ? evaluateTls(data, states)
+      : check === 'tcp' ? evaluateTcp(data, port, states)
+      : evaluateTraceroute(data, states, traceStops);
+    outcomes.set(check, { data, result });
+  });
+
+  return {
+    url: parsed.href,
+    host,
+    port,
+    likely_causes: correlate(host, port, states, outcomes, traceStops),
+    checks: CHECKS.map((c) => outcomes.get(c)!.result),
+    regions: [...states].map(([region, s]) => ({ region, ...s })),
+    diagnostic_runs: runs,
+    checked_at: new Date().toISOString(),
+  };
+}
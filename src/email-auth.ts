@@ -0,0 +1,290 @@
+import {
+  V1RunResponse,
+  DnsRecordType,
+  ProbeRegion,
+  AuditFinding,
+  AuditStatus,
+  SpfRecord,
+  DmarcRecord,
+  DkimSelectorResult,
+  EmailAuthAudit,
+} from './types.js';
+import { analyzeDnsPropagation } from './parsers.js';
+
+export type DnsLookupFn = (domain: string, recordType: DnsRecordType, regions?: ProbeRegion[]) => Promise<V1RunResponse>;
+
+// RFC 7208 §4.6.4: at most 10 DNS-querying terms per SPF evaluation
+const SPF_LOOKUP_LIMIT = 10;
+const SPF_LOOKUP_TERMS = new Set(['include', 'a', 'mx', 'ptr', 'exists', 'redirect']);
+
+/**
+ * Diagnostic runs an audit can use: one each for SPF, DMARC, MX and every
+ * DKIM selector, plus up to one per SPF include before the lookup limit.
+ */
+export function auditRunRange(selectorCount: number): { min: number; max: number } {
+  const min = 3 + selectorCount;
+  return { min, max: min + SPF_LOOKUP_LIMIT };
+}
+
+const STATUS_RANK: Record<AuditStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+// ── Record Parsing ──────────────────────────────────────────
+
+interface SpfTerm {
+  qualifier: string;
+  name: string;
+  value: string | null;
+}
+
+function parseSpfTerms(record: string): SpfTerm[] {
+  return record.trim().split(/\s+/).slice(1).filter(Boolean).map((raw) => {
+    const modifier = /^([a-z][a-z0-9_.-]*)=(.*)$/i.exec(raw);
+    if (modifier) return { qualifier: '', name: modifier[1].toLowerCase(), value: modifier[2] };
+    const qualifier = /^[+\-~?]/.test(raw) ? raw[0] : '';
+    const body = qualifier ? raw.slice(1) : raw;
+    const sep = body.search(/[:/]/);
+    const name = (sep === -1 ? body : body.slice(0, sep)).toLowerCase();
+    const value = sep === -1 ? null : body.slice(body[sep] === ':' ? sep + 1 : sep);
+    return { qualifier, name, value };
+  });
+}
+
+function findSpfRecords(txt: string[]): string[] {
+  return txt.filter((r) => /^v=spf1(\s|$)/i.test(r));
+}
+
+export function parseDmarc(record: string): DmarcRecord {
+  const tags = new Map<string, string>();
+  for (const part of record.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    tags.set(part.slice(0, eq).trim().toLowerCase(), part.slice(eq + 1).trim());
+  }
+  const uris = (v: string | undefined) => (v ? v.split(',').map((u) => u.trim()).filter(Boolean) : []);
+  const pct = tags.has('pct') ? parseInt(tags.get('pct')!, 10) : 100;
+  return {
+    record,
+    policy: tags.get('p')?.toLowerCase() ?? null,
+    subdomain_policy: tags.get('sp')?.toLowerCase() ?? null,
+    pct: Number.isNaN(pct) ? 100 : pct,
+    rua: uris(tags.get('rua')),
+    ruf: uris(tags.get('ruf')),
+    adkim: tags.get('adkim')?.toLowerCase() ?? 'r',
+    aspf: tags.get('aspf')?.toLowerCase() ?? 'r',
+  };
+}
+
+export function parseDkim(selector: string, txt: string[]): DkimSelectorResult {
+  const record = txt.find((r) => /(^|;)\s*(v=DKIM1|p=)/i.test(r)) ?? null;
+  if (!record) return { selector, record: null, key_type: null, has_key: false };
+  const key = /(?:^|;)\s*p=([^;]*)/i.exec(record);
+  const keyType = /(?:^|;)\s*k=([^;]*)/i.exec(record);
+  return {
+    selector,
+    record,
+    key_type: keyType ? keyType[1].trim().toLowerCase() : 'rsa',
+    has_key: !!key && key[1].replace(/\s+/g, '').length > 0,
+  };
+}
+
+// ── Audit ───────────────────────────────────────────────────
+
+/**
+ * Answers seen by most regions for a lookup, plus whether every responding
+ * region agreed.
+ */
+function consensus(data: V1RunResponse, recordType: DnsRecordType): { answers: string[]; consistent: boolean } {
+  const result = analyzeDnsPropagation({ ...data, record_type: recordType }, null);
+  return { answers: result.groups[0]?.answers ?? [], consistent: result.consistent };
+}
+
+/**
+ * Walk the SPF include/redirect tree, counting DNS-querying terms. Include
+ * targets are resolved from a single region and resolution stops once the
+ * RFC lookup limit is exceeded, so a broken record cannot burn unbounded quota.
+ */
+async function evaluateSpf(
+  record: string,
+  lookup: DnsLookupFn,
+  region: ProbeRegion | undefined,
+  findings: AuditFinding[],
+): Promise<{ spf: SpfRecord; runs: number }> {
+  let lookups = 0;
+  let runs = 0;
+  let maxDepth = 0;
+  // Each include target is fetched once even if referenced from several places
+  const fetched = new Map<string, string | null>();
+
+  async function walk(rec: string, depth: number, source: string, ancestors: string[]): Promise<void> {
+    maxDepth = Math.max(maxDepth, depth);
+    for (const term of parseSpfTerms(rec)) {
+      if (!SPF_LOOKUP_TERMS.has(term.name)) continue;
+      lookups++;
+      if ((term.name !== 'include' && term.name !== 'redirect') || !term.value) continue;
+      if (lookups > SPF_LOOKUP_LIMIT) return;
+      const target = term.value.toLowerCase().replace(/\.$/, '');
+      if (target.includes('%')) continue; // macro, resolved per-message
+      if (ancestors.includes(target)) {
+        findings.push({ check: 'spf', status: 'fail', message: `SPF include loop: ${source} includes ${target}` });
+        continue;
+      }
+      if (!fetched.has(target)) {
+        runs++;
+        const data = await lookup(target, 'TXT', region ? [region] : undefined);
+        fetched.set(target, findSpfRecords(consensus(data, 'TXT').answers)[0] ?? null);
+      }
+      const child = fetched.get(target);
+      if (!child) {
+        findings.push({ check: 'spf', status: 'fail', message: `${term.name}:${target} (from ${source}) has no SPF record (permerror)` });
+        continue;
+      }
+      await walk(child, depth + 1, target, [...ancestors, target]);
+    }
+  }
+
+  await walk(record, 0, 'root', []);
+
+  const terms = parseSpfTerms(record);
+  const allTerm = terms.find((t) => t.name === 'all');
+  const redirect = terms.find((t) => t.name === 'redirect');
+  return {
+    spf: {
+      record,
+      all: allTerm ? `${allTerm.qualifier || '+'}all` : null,
+      includes: terms.filter((t) => t.name === 'include' && t.value).map((t) => t.value!),
+      redirect: redirect?.value ?? null,
+      lookup_count: lookups,
+      include_depth: maxDepth,
+    },
+    runs,
+  };
+}
+
+function spfFindings(spf: SpfRecord, findings: AuditFinding[]): void {
+  if (spf.lookup_count > SPF_LOOKUP_LIMIT) {
+    findings.push({ check: 'spf', status: 'fail', message: `SPF needs at least ${spf.lookup_count} DNS lookups (limit ${SPF_LOOKUP_LIMIT}, permerror)` });
+  } else if (spf.lookup_count >= 8) {
+    findings.push({ check: 'spf', status: 'warn', message: `SPF uses ${spf.lookup_count} of ${SPF_LOOKUP_LIMIT} DNS lookups` });
+  }
+  if (parseSpfTerms(spf.record).some((t) => t.name === 'ptr')) {
+    findings.push({ check: 'spf', status: 'warn', message: 'SPF uses the deprecated ptr mechanism' });
+  }
+  if (spf.all === '+all') {
+    findings.push({ check: 'spf', status: 'fail', message: 'SPF ends in +all: any server may send mail for this domain' });
+  } else if (spf.all === '?all') {
+    findings.push({ check: 'spf', status: 'warn', message: 'SPF ends in ?all (neutral): unauthorised senders are not rejected' });
+  } else if (!spf.all && !spf.redirect) {
+    findings.push({ check: 'spf', status: 'warn', message: 'SPF has no all mechanism or redirect (defaults to neutral)' });
+  } else {
+    findings.push({ check: 'spf', status: 'pass', message: `SPF record found (${spf.all ?? `redirect=${spf.redirect}`}, ${spf.lookup_count} DNS lookups)` });
+  }
+}
+
+function dmarcFindings(dmarc: DmarcRecord, findings: AuditFinding[]): void {
+  if (!dmarc.policy || !['none', 'quarantine', 'reject'].includes(dmarc.policy)) {
+    findings.push({ check: 'dmarc', status: 'fail', message: `DMARC policy is missing or invalid (p=${dmarc.policy ?? ''})` });
+  } else if (dmarc.policy === 'none') {
+    findings.push({ check: 'dmarc', status: 'warn', message: 'DMARC policy is p=none (monitoring only, spoofed mail is delivered)' });
+  } else {
+    findings.push({ check: 'dmarc', status: 'pass', message: `DMARC policy is p=${dmarc.policy}` });
+  }
+  if (dmarc.pct < 100) {
+    findings.push({ check: 'dmarc', status: 'warn', message: `DMARC pct=${dmarc.pct}: policy applies to only ${dmarc.pct}% of failing mail` });
+  }
+  if (dmarc.rua.length === 0) {
+    findings.push({ check: 'dmarc', status: 'warn', message: 'DMARC has no rua= address, so no aggregate reports are received' });
+  }
+}
+
+/**
+ * Audit SPF, DMARC, DKIM and MX for a domain. Base lookups run from the
+ * requested regions; SPF include resolution runs from one region only.
+ */
+export async function auditEmailAuth(
+  domain: string,
+  selectors: string[],
+  lookup: DnsLookupFn,
+  regions?: ProbeRegion[],
+): Promise<EmailAuthAudit> {
+  const findings: AuditFinding[] = [];
+  const [txtData, dmarcData, mxData, ...dkimData] = await Promise.all([
+    lookup(domain, 'TXT', regions),
+    lookup(`_dmarc.${domain}`, 'TXT', regions),
+    lookup(domain, 'MX', regions),
+    ...selectors.map((sel) => lookup(`${sel}._domainkey.${domain}`, 'TXT', regions)),
+  ]);
+  let runs = 3 + selectors.length;
+
+  // SPF
+  const txt = consensus(txtData, 'TXT');
+  const spfRecords = findSpfRecords(txt.answers);
+  let spf: SpfRecord | null = null;
+  if (spfRecords.length === 0) {
+    findings.push({ check: 'spf', status: 'fail', message: 'No SPF record (v=spf1) found' });
+  } else {
+    if (spfRecords.length > 1) {
+      findings.push({ check: 'spf', status: 'fail', message: `${spfRecords.length} SPF records found; only one is allowed (permerror)` });
+    }
+    const firstRegion = regions?.[0] ?? (txtData.regions_checked.find((r) => r.success)?.region as ProbeRegion | undefined);
+    const evaluated = await evaluateSpf(spfRecords[0], lookup, firstRegion, findings);
+    spf = evaluated.spf;
+    runs += evaluated.runs;
+    spfFindings(spf, findings);
+  }
+  if (!txt.consistent) {
+    findings.push({ check: 'spf', status: 'warn', message: 'TXT records differ between regions (recent change still propagating?)' });
+  }
+
+  // DMARC
+  const dmarcAnswers = consensus(dmarcData, 'TXT');
+  const dmarcRecord = dmarcAnswers.answers.find((r) => /^v=DMARC1(\s|;|$)/i.test(r));
+  const dmarc = dmarcRecord ? parseDmarc(dmarcRecord) : null;
+  if (dmarc) {
+    dmarcFindings(dmarc, findings);
+  } else {
+    findings.push({ check: 'dmarc', status: 'fail', message: `No DMARC record at _dmarc.${domain}` });
+  }
+
+  // DKIM
+  const dkim = selectors.map((sel, i) => parseDkim(sel, consensus(dkimData[i], 'TXT').answers));
+  if (selectors.length === 0) {
+    findings.push({ check: 'dkim', status: 'warn', message: 'No DKIM selectors given; DKIM keys cannot be discovered and were not checked' });
+  }
+  for (const d of dkim) {
+    if (!d.record) {
+      findings.push({ check: 'dkim', status: 'fail', message: `No DKIM record at ${d.selector}._domainkey.${domain}` });
+    } else if (!d.has_key) {
+      findings.push({ check: 'dkim', status: 'fail', message: `DKIM selector ${d.selector} has an empty p= (key revoked)` });
+    } else {
+      findings.push({ check: 'dkim', status: 'pass', message: `DKIM selector ${d.selector} publishes a ${d.key_type} key` });
+    }
+  }
+
+  // MX
+  const mxResult = analyzeDnsPropagation({ ...mxData, record_type: 'MX' }, null);
+  const mxAnswers = mxResult.groups[0]?.answers ?? [];
+  if (mxAnswers.length === 0) {
+    findings.push({ check: 'mx', status: 'warn', message: 'No MX records: the domain cannot receive mail' });
+  } else if (mxAnswers.length === 1 && mxAnswers[0] === '0') {
+    findings.push({ check: 'mx', status: 'pass', message: 'Null MX (RFC 7505): the domain explicitly accepts no mail' });
+  } else {
+    findings.push({ check: 'mx', status: 'pass', message: `${mxAnswers.length} MX record(s) found` });
+  }
+  if (!mxResult.consistent) {
+    findings.push({ check: 'mx', status: 'warn', message: `MX records differ between regions (${mxResult.mismatched_regions.join(', ')} disagree with the majority)` });
+  }
+
+  const status = findings.reduce<AuditStatus>((worst, f) => (STATUS_RANK[f.status] > STATUS_RANK[worst] ? f.status : worst), 'pass');
+
+  return {
+    domain,
+    status,
+    findings,
+    spf,
+    dmarc,
+    dkim,
+    mx: mxResult.groups,
+    diagnostic_runs: runs,
+    checked_at: new Date().toISOString(),
+  };
+}
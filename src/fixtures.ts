@@ -0,0 +1,135 @@
+import { promises as fs } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { join } from 'node:path';
+import { FetchFn } from './types.js';
+
+// Response headers the client reads; everything else is left out of fixtures
+const KEPT_HEADERS = ['content-type', 'retry-after', 'x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset'];
+
+// Statuses a Response may not carry a body for
+const NULL_BODY_STATUS = new Set([204, 205, 304]);
+
+interface Fixture {
+  request: { method: string; path: string; body: unknown };
+  response: { status: number; status_text: string; headers: Record<string, string>; body: unknown };
+  recorded_at: string;
+}
+
+// ── Request Keys ────────────────────────────────────────────
+
+/** JSON with object keys sorted, so equal requests always hash the same */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function parseBody(body: RequestInit['body']): unknown {
+  if (typeof body !== 'string') return null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * File name for a request: readable prefix (method, path, and tool/target
+ * for runs) plus a hash of the method, path and canonical body.
+ */
+function fixtureName(method: string, path: string, body: unknown): string {
+  const hash = createHash('sha256').update(`${method} ${path} ${canonicalJson(body)}`).digest('hex').slice(0, 12);
+  const parts = [method, ...path.replace(/^\/api\//, '').split(/[/?&=]/)];
+  if (body && typeof body === 'object' && 'tool' in body && 'target' in body) {
+    parts.push(String(body.tool), String(body.target));
+  }
+  const slug = parts.join('_').replace(/[^A-Za-z0-9._-]+/g, '-').slice(0, 100);
+  return `${slug}_${hash}.json`;
+}
+
+function requestParts(url: string, init: RequestInit): { method: string; path: string; body: unknown } {
+  const { pathname, search } = new URL(url);
+  return { method: (init.method || 'GET').toUpperCase(), path: pathname + search, body: parseBody(init.body) };
+}
+
+/** Replace proxy JWTs so fixture files never hold a usable credential */
+function redact(body: unknown): unknown {
+  if (Array.isArray(body)) return body.map(redact);
+  if (body && typeof body === 'object') {
+    return Object.fromEntries(Object.entries(body).map(([k, v]) => [k, k === 'jwt_token' ? 'redacted' : redact(v)]));
+  }
+  return body;
+}
+
+// ── Record ──────────────────────────────────────────────────
+
+/**
+ * Wrap `fetch` so every API response is also saved to `dir` as a fixture.
+ * Recording the same request again overwrites the earlier fixture. A failed
+ * write is logged and never fails the call.
+ */
+export function createRecordingFetch(dir: string, inner: FetchFn = fetch): FetchFn {
+  let ready: Promise<unknown> | null = null;
+
+  return async (url, init) => {
+    const response = await inner(url, init);
+    const text = await response.text();
+
+    const request = requestParts(url, init);
+    const headers: Record<string, string> = {};
+    for (const name of KEPT_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+    const fixture: Fixture = {
+      request,
+      response: { status: response.status, status_text: response.statusText, headers, body: redact(parseBody(text)) },
+      recorded_at: new Date().toISOString(),
+    };
+    try {
+      ready ??= fs.mkdir(dir, { recursive: true, mode: 0o700 });
+      await ready;
+      const file = join(dir, fixtureName(request.method, request.path, request.body));
+      await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n', { mode: 0o600 });
+    } catch (err) {
+      ready = null;
+      process.stderr.write(`[probeops] Failed to record fixture: ${err instanceof Error ? err.message : err}\n`);
+    }
+
+    return new Response(NULL_BODY_STATUS.has(response.status) ? null : text, { status: response.status, statusText: response.statusText, headers: response.headers });
+  };
+}
+
+// ── Replay ──────────────────────────────────────────────────
+
+/**
+ * Serve recorded fixtures instead of calling the API. A request with no
+ * fixture gets a 404 whose detail names the missing request, so it
+ * surfaces as a normal API error.
+ */
+export function createReplayFetch(dir: string): FetchFn {
+  return async (url, init) => {
+    const { method, path, body } = requestParts(url, init);
+    const file = join(dir, fixtureName(method, path, body));
+
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(file, 'utf-8')) as Fixture;
+    } catch {
+      const what = body && typeof body === 'object' && 'tool' in body ? ` (${body.tool} ${(body as { target?: unknown }).target})` : '';
+      process.stderr.write(`[probeops] No fixture for ${method} ${path}${what}: ${file}\n`);
+      return new Response(JSON.stringify({ detail: `No recorded fixture for ${method} ${path}${what}. Record it first with PROBEOPS_MODE=record.` }), {
+        status: 404,
+        statusText: 'Not Found',
+        headers: { 'content-type': 'application/json' },
+      });
+    }
+
+    const { status, status_text, headers, body: responseBody } = fixture.response;
+    const text = typeof responseBody === 'string' ? responseBody : JSON.stringify(responseBody);
+    return new Response(NULL_BODY_STATUS.has(status) ? null : text, { status, statusText: status_text, headers });
+  };
+}
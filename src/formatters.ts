@@ -4,6 +4,17 @@ import {
   IsItDownResponse,
   LatencyTestResponse,
   TracerouteResponse,
+  TracerouteTrace,
+  PingSummary,
+  PortMatrix,
+  WhoisAnalysis,
+  SiteDiagnosis,
+  PreflightResult,
+  ProxyTokenSummary,
+  GeoCompareResult,
+  StepOutcome,
+  NetworkSummary,
+  PagePerformance,
   PortCheckResponse,
   GeoProxyResponse,
   GeoProxyDailyUsage,
@@ -13,6 +24,12 @@ import {
   ProxyRegionInfo,
   CachedQuota,
   V1RunResponse,
+  DnsPropagationResult,
+  EmailAuthAudit,
+  SslExpiryReport,
+  HistoryEntry,
+  MonitorInfo,
+  MonitorState,
 } from './types.js';
 
 // ── Helpers ─────────────────────────────────────────────────
@@ -75,6 +92,27 @@ export function formatSslCheck(data: SslCheckResponse | V1RunResponse): string {
   return lines.join('\n');
 }
 
+// ── SSL Expiry Report ───────────────────────────────────────
+
+export function formatSslExpiryReport(data: SslExpiryReport): string {
+  const lines: string[] = [`SSL Expiry Report (${data.entries.length} domains)`];
+  const { summary } = data;
+  lines.push(`  Expired: ${summary.expired} | Critical (<= ${data.critical_days}d): ${summary.critical} | Warning (<= ${data.warning_days}d): ${summary.warning} | OK: ${summary.ok} | Errors: ${summary.error}`);
+  lines.push('');
+  lines.push('  | Domain | Status | Expires in | Valid until | Issuer | Flags |');
+  lines.push('  |--------|--------|------------|-------------|--------|-------|');
+  for (const e of data.entries) {
+    if (e.status === 'error') {
+      lines.push(`  | ${e.domain} | ERROR | - | - | - | ${e.error} |`);
+      continue;
+    }
+    const flags = e.flags.length > 0 ? e.flags.join(', ').toUpperCase() : '-';
+    lines.push(`  | ${e.domain} | ${e.status.toUpperCase()} | ${e.days_until_expiry} days | ${e.valid_until} | ${e.issuer} | ${flags} |`);
+  }
+
+  return lines.join('\n');
+}
+
 // ── DNS Lookup ──────────────────────────────────────────────
 
 export function formatDnsLookup(data: DnsLookupResponse | V1RunResponse): string {
@@ -104,6 +142,129 @@ export function formatDnsLookup(data: DnsLookupResponse | V1RunResponse): string
   return lines.join('\n');
 }
 
+// ── DNS Propagation ─────────────────────────────────────────
+
+export function formatDnsPropagation(data: DnsPropagationResult): string {
+  const lines: string[] = [`DNS Propagation: ${data.domain} (${data.record_type})`];
+  const responding = data.groups.reduce((n, g) => n + g.regions.length, 0);
+
+  if (responding === 0) {
+    lines.push('  Status: NO ANSWER - no region returned a DNS response');
+  } else if (data.consistent) {
+    lines.push(`  Status: CONSISTENT across ${responding} region(s)`);
+  } else {
+    lines.push(`  Status: INCONSISTENT - ${data.groups.length} different answer sets across ${responding} region(s)`);
+  }
+
+  if (data.expected) {
+    const matching = data.groups.filter((g) => g.matches_expected).reduce((n, g) => n + g.regions.length, 0);
+    lines.push(`  Expected (${data.match_mode}): ${data.expected.join(', ') || '(no records)'}`);
+    lines.push(`  Propagated: ${data.propagated ? 'YES' : 'NO'} (${matching} of ${responding} regions match)`);
+  }
+
+  data.groups.forEach((g, i) => {
+    let label = '';
+    if (g.matches_expected === true) label = ' - matches expected';
+    else if (g.matches_expected === false) label = ' - MISMATCH';
+    else if (i > 0) label = ' - MISMATCH (differs from majority)';
+    lines.push('');
+    lines.push(`  Answer set ${i + 1} (${g.regions.length} region(s): ${g.regions.join(', ')})${label}`);
+    if (g.answers.length === 0) {
+      lines.push('    (no records)');
+    }
+    for (const a of g.answers) {
+      lines.push(`    ${a}`);
+    }
+  });
+
+  if (data.failed_regions.length > 0) {
+    lines.push('');
+    lines.push('  Failed regions:');
+    for (const f of data.failed_regions) {
+      lines.push(`    ${f.region}: ${f.error}`);
+    }
+  }
+
+  lines.push(lockedNote(data.locked_regions.length));
+  lines.push(`\n  Completed in ${data.execution_time_ms}ms`);
+
+  return lines.join('\n');
+}
+
+// ── Email Authentication Audit ──────────────────────────────
+
+export function formatEmailAuthAudit(data: EmailAuthAudit): string {
+  const lines: string[] = [`Email Authentication Audit: ${data.domain}`];
+  lines.push(`  Overall: ${data.status.toUpperCase()}`);
+  lines.push('');
+  lines.push('  | Check | Result | Finding |');
+  lines.push('  |-------|--------|---------|');
+  for (const f of data.findings) {
+    lines.push(`  | ${f.check.toUpperCase()} | ${f.status.toUpperCase()} | ${f.message} |`);
+  }
+
+  if (data.spf) {
+    lines.push('');
+    lines.push(`  SPF: ${data.spf.record}`);
+    lines.push(`    DNS lookups: ${data.spf.lookup_count}/10 | Include depth: ${data.spf.include_depth}`);
+  }
+  if (data.dmarc) {
+    lines.push('');
+    lines.push(`  DMARC: ${data.dmarc.record}`);
+    lines.push(`    Policy: ${data.dmarc.policy ?? '(missing)'}${data.dmarc.subdomain_policy ? ` | Subdomains: ${data.dmarc.subdomain_policy}` : ''} | pct: ${data.dmarc.pct}`);
+    lines.push(`    Reports (rua): ${data.dmarc.rua.join(', ') || '(none)'}`);
+  }
+  for (const d of data.dkim) {
+    lines.push('');
+    lines.push(`  DKIM ${d.selector}: ${d.record ? (d.has_key ? `${d.key_type} key present` : 'key revoked (empty p=)') : 'not found'}`);
+  }
+
+  lines.push('');
+  lines.push('  MX records by region:');
+  if (data.mx.length === 0) {
+    lines.push('    (no responding regions)');
+  }
+  for (const g of data.mx) {
+    lines.push(`    ${g.regions.join(', ')}: ${g.answers.join(', ') || '(no records)'}`);
+  }
+
+  lines.push(`\n  Used ${data.diagnostic_runs} diagnostic run(s)`);
+
+  return lines.join('\n');
+}
+
+// ── Site Diagnosis ──────────────────────────────────────────
+
+export function formatSiteDiagnosis(data: SiteDiagnosis): string {
+  const lines: string[] = [`Site Diagnosis: ${data.url}`];
+  lines.push(`  Host: ${data.host} | Port: ${data.port}`);
+  lines.push('');
+
+  lines.push('  Likely causes (most likely first):');
+  data.likely_causes.forEach((c, i) => {
+    lines.push(`  ${i + 1}. [${c.confidence.toUpperCase()}] ${c.cause}`);
+    for (const e of c.evidence) lines.push(`       - ${e}`);
+  });
+  lines.push('');
+
+  lines.push('  Checks:');
+  for (const c of data.checks) {
+    lines.push(`    ${c.check.toUpperCase()} (${c.tool}): ${c.status.toUpperCase()} - ${c.error ?? c.summary}`);
+  }
+  lines.push('');
+
+  if (data.regions.length > 0) {
+    lines.push('  | Region | HTTP | DNS | TLS | TCP | Traceroute |');
+    lines.push('  |--------|------|-----|-----|-----|------------|');
+    for (const r of data.regions) {
+      lines.push(`  | ${r.region} | ${r.http} | ${r.dns} | ${r.tls} | ${r.tcp} | ${r.traceroute} |`);
+    }
+  }
+
+  lines.push(`\n  Diagnostic runs used: ${data.diagnostic_runs}`);
+  return lines.join('\n');
+}
+
 // ── Is It Down ──────────────────────────────────────────────
 
 export function formatIsItDown(data: IsItDownResponse | V1RunResponse): string {
@@ -151,14 +312,43 @@ export function formatLatencyTest(data: LatencyTestResponse | V1RunResponse): st
 
 // ── Traceroute ──────────────────────────────────────────────
 
+function traceSummary(trace: TracerouteTrace): string[] {
+  const lines: string[] = [];
+  if (trace.largest_jump) {
+    const j = trace.largest_jump;
+    lines.push(`    Largest latency jump: hop ${j.from_hop} → ${j.to_hop} (+${j.increase_ms.toFixed(1)}ms)`);
+  }
+  for (const run of trace.timeout_runs) {
+    const span = run.from_hop === run.to_hop ? `hop ${run.from_hop}` : `hops ${run.from_hop}-${run.to_hop}`;
+    lines.push(`    No reply (* * *) from ${span}`);
+  }
+  if (!trace.reached) {
+    const last = trace.last_responding_hop;
+    lines.push(last
+      ? `    Target not reached. Last responding hop: ${last.hop} (${last.host}${last.ip && last.ip !== last.host ? `, ${last.ip}` : ''})`
+      : '    Target not reached. No hop responded.');
+  }
+  return lines;
+}
+
 export function formatTraceroute(data: TracerouteResponse | V1RunResponse): string {
   const lines: string[] = [`Traceroute: ${data.target}`];
   lines.push('');
+  const traces = (data as TracerouteResponse).traces ?? [];
 
   for (const r of data.regions_checked) {
     const location = r.location || r.region;
     lines.push(`  From ${r.region} (${location}):`);
-    if (r.success && r.result?.output) {
+    const trace = traces.find((t) => t.region === r.region);
+    if (r.success && trace && trace.hops.length > 0) {
+      lines.push('    | Hop | Host | IP | Avg RTT | Replies |');
+      lines.push('    |-----|------|----|---------|---------|');
+      for (const h of trace.hops) {
+        const avg = h.avg_rtt_ms !== null ? `${h.avg_rtt_ms.toFixed(1)}ms` : '-';
+        lines.push(`    | ${h.hop} | ${h.host ?? '*'} | ${h.ip ?? '-'} | ${avg} | ${h.rtts_ms.length}/${h.rtts_ms.length + h.timeouts} |`);
+      }
+      lines.push(...traceSummary(trace));
+    } else if (r.success && r.result?.output) {
       const hops = r.result.output.trim().split('\n');
       for (const hop of hops) {
         lines.push(`    ${hop}`);
@@ -176,6 +366,42 @@ export function formatTraceroute(data: TracerouteResponse | V1RunResponse): stri
   return lines.join('\n');
 }
 
+// ── Ping ────────────────────────────────────────────────────
+
+export function formatPing(data: V1RunResponse, summary: PingSummary): string {
+  const lines: string[] = [`Ping: ${data.target}`];
+  const ms = (n: number | null, digits = 2) => (n !== null ? `${n.toFixed(digits)}ms` : '-');
+
+  if (summary.avg_ms !== null) {
+    lines.push(`  Average: ${ms(summary.avg_ms, 1)}`);
+    lines.push(`  Min: ${ms(summary.min_ms, 1)} | Max: ${ms(summary.max_ms, 1)}`);
+  }
+  if (summary.avg_loss_percent !== null) {
+    lines.push(`  Average packet loss: ${summary.avg_loss_percent}%`);
+  }
+
+  lines.push('');
+  lines.push('  Region Results:');
+  lines.push('  | Region | Location | Sent | Received | Loss | Min | Avg | Max | Mdev |');
+  lines.push('  |--------|----------|------|----------|------|-----|-----|-----|------|');
+
+  for (const r of data.regions_checked) {
+    const location = r.location || r.region;
+    const s = summary.stats.find((st) => st.region === r.region);
+    if (s) {
+      lines.push(`  | ${r.region} | ${location} | ${s.transmitted} | ${s.received} | ${s.loss_percent}% | ${ms(s.min_ms)} | ${ms(s.avg_ms)} | ${ms(s.max_ms)} | ${ms(s.mdev_ms)} |`);
+    } else {
+      const failure = summary.failed_regions.find((f) => f.region === r.region);
+      lines.push(`  | ${r.region} | ${location} | FAILED: ${failure?.error || r.error || 'No response'} |`);
+    }
+  }
+
+  lines.push(lockedNote(data.regions_locked.length));
+  lines.push(`\n  Completed in ${data.execution_time_ms}ms`);
+
+  return lines.join('\n');
+}
+
 // ── Port Check ──────────────────────────────────────────────
 
 export function formatPortCheck(data: PortCheckResponse | V1RunResponse): string {
@@ -193,6 +419,85 @@ export function formatPortCheck(data: PortCheckResponse | V1RunResponse): string
   return lines.join('\n');
 }
 
+// ── Nmap Port Matrix ────────────────────────────────────────
+
+export function formatPortMatrix(data: V1RunResponse, matrix: PortMatrix): string {
+  const lines: string[] = [`Nmap Port Check: ${data.target}`];
+
+  if (matrix.inconsistent_ports.length > 0) {
+    lines.push(`  WARNING: Open from some regions but not others: ${matrix.inconsistent_ports.join(', ')}`);
+    lines.push('    This usually means a geo-firewall or security-group rule differs by source region.');
+  } else if (matrix.rows.length > 0) {
+    lines.push('  All regions agree on every port.');
+  }
+  lines.push('');
+
+  if (matrix.rows.length === 0) {
+    lines.push('  No ports reported.');
+  } else {
+    lines.push(`  | Port | Service | ${matrix.regions.join(' | ')} |`);
+    lines.push(`  |------|---------|${matrix.regions.map(() => '---').join('|')}|`);
+    for (const row of matrix.rows) {
+      const mark = row.inconsistent ? ' (!)' : '';
+      const cells = matrix.regions.map((region) => row.states[region]);
+      lines.push(`  | ${row.port}/${row.protocol}${mark} | ${row.service ?? '-'} | ${cells.join(' | ')} |`);
+    }
+  }
+
+  for (const f of matrix.failed_regions) {
+    lines.push(`  ${f.region}: FAILED: ${f.error}`);
+  }
+
+  lines.push(lockedNote(data.regions_locked.length));
+  lines.push(`\n  Completed in ${data.execution_time_ms}ms`);
+
+  return lines.join('\n');
+}
+
+// ── WHOIS ───────────────────────────────────────────────────
+
+export function formatWhois(data: V1RunResponse, analysis: WhoisAnalysis): string {
+  const lines: string[] = [`WHOIS: ${data.target}`];
+  const rec = analysis.record;
+  const day = (iso: string | null) => (iso ? iso.slice(0, 10) : 'unknown');
+
+  if (rec) {
+    lines.push(`  Registrar: ${rec.registrar ?? 'unknown'}`);
+    lines.push(`  Created: ${day(rec.created)} | Updated: ${day(rec.updated)}`);
+    const remaining = rec.days_until_expiry !== null ? ` (${rec.days_until_expiry} days)` : '';
+    lines.push(`  Expires: ${day(rec.expires)}${remaining}`);
+    lines.push(`  Nameservers: ${rec.nameservers.join(', ') || 'none listed'}`);
+    lines.push(`  Status: ${rec.statuses.join(', ') || 'none listed'}`);
+    lines.push(`  DNSSEC: ${rec.dnssec ?? 'unknown'}`);
+    lines.push(`  Source region: ${analysis.source_region}`);
+  }
+
+  if (analysis.dns_nameservers) {
+    lines.push('');
+    lines.push(`  NS seen by probes: ${analysis.dns_nameservers.join(', ') || 'none'}`);
+    if (analysis.nameservers_only_in_whois.length > 0) {
+      lines.push(`    Only in WHOIS: ${analysis.nameservers_only_in_whois.join(', ')}`);
+    }
+    if (analysis.nameservers_only_in_dns.length > 0) {
+      lines.push(`    Only in DNS: ${analysis.nameservers_only_in_dns.join(', ')}`);
+    }
+  }
+
+  if (analysis.warnings.length > 0) {
+    lines.push('');
+    for (const w of analysis.warnings) lines.push(`  WARNING: ${w}`);
+  }
+
+  for (const r of data.regions_checked) {
+    if (!r.success) lines.push(`  ${r.region}: FAILED: ${r.error || 'No response'}`);
+  }
+
+  lines.push(lockedNote(data.regions_locked.length));
+  lines.push(`\n  Completed in ${data.execution_time_ms}ms`);
+
+  return lines.join('\n');
+}
+
 // ── Generic Result (for new tools without custom formatters) ─
 
 export function formatGenericResult(data: V1RunResponse): string {
@@ -222,6 +527,123 @@ export function formatGenericResult(data: V1RunResponse): string {
   return lines.join('\n');
 }
 
+// ── Result History ──────────────────────────────────────────
+
+function historyDetails(data: V1RunResponse): string {
+  const parts: string[] = [];
+  if (data.global_status) parts.push(`status ${data.global_status}`);
+  if (data.certificate) {
+    parts.push(`cert expires in ${data.certificate.days_until_expiry}d`);
+    parts.push(`fp ${data.certificate.fingerprint.slice(0, 11)}`);
+  }
+  if (data.certificates_consistent === false) parts.push('certs differ');
+  if (data.average_latency_ms !== undefined) parts.push(`avg latency ${data.average_latency_ms.toFixed(1)}ms`);
+  return parts.join(', ') || '-';
+}
+
+export function formatHistory(entries: HistoryEntry[], filterDescription: string): string {
+  const lines: string[] = [`Result History (${entries.length} run${entries.length === 1 ? '' : 's'})`];
+  if (filterDescription) lines.push(`  Filter: ${filterDescription}`);
+  lines.push('');
+
+  if (entries.length === 0) {
+    lines.push('  No recorded runs match.');
+    return lines.join('\n');
+  }
+
+  lines.push('  | Checked at | Tool | Target | Regions OK | Avg time | Details |');
+  lines.push('  |------------|------|--------|------------|----------|---------|');
+  for (const e of entries) {
+    const regions = e.data.regions_checked;
+    const ok = regions.filter((r) => r.success);
+    const avg = ok.length > 0 ? `${Math.round(ok.reduce((n, r) => n + r.response_time_ms, 0) / ok.length)}ms` : '-';
+    lines.push(`  | ${e.checked_at} | ${e.tool} | ${e.target} | ${ok.length}/${regions.length} | ${avg} | ${historyDetails(e.data)} |`);
+  }
+
+  return lines.join('\n');
+}
+
+// ── Monitors ────────────────────────────────────────────────
+
+function monitorStateLines(state: MonitorState): string[] {
+  const lines: string[] = [];
+  if (state.global_status !== undefined) lines.push(`    Status: ${state.global_status}`);
+  if (state.certificate_fingerprint !== undefined) lines.push(`    Certificate fingerprint: ${state.certificate_fingerprint ?? 'none'}`);
+  if (state.dns_answers) {
+    for (const [region, answers] of Object.entries(state.dns_answers)) {
+      lines.push(`    ${region}: ${answers.join(', ') || '(no answers)'}`);
+    }
+  }
+  if (state.port_states) {
+    for (const [key, portState] of Object.entries(state.port_states)) {
+      lines.push(`    ${key}: ${portState}`);
+    }
+  }
+  return lines;
+}
+
+export function formatMonitor(m: MonitorInfo): string {
+  const params = m.params && Object.keys(m.params).length > 0 ? ` ${JSON.stringify(m.params)}` : '';
+  const lines: string[] = [`Monitor ${m.id}${m.label ? ` (${m.label})` : ''}: ${m.tool} ${m.target}${params}`];
+  lines.push(`  Every ${m.interval_minutes} min from ${m.regions?.join(', ') || 'all regions'}`);
+  lines.push(`  Runs: ${m.runs}${m.skipped_runs > 0 ? ` (${m.skipped_runs} skipped for quota)` : ''}`);
+  lines.push(`  Last run: ${m.last_run_at ?? 'never'} | Next run: ${m.next_run_at ?? '-'}`);
+  if (m.last_error) lines.push(`  Last error: ${m.last_error}`);
+  if (m.last_change_at) {
+    lines.push(`  Last change at ${m.last_change_at}:`);
+    for (const change of m.last_changes) lines.push(`    - ${change}`);
+  }
+  if (m.last_state) {
+    const stateLines = monitorStateLines(m.last_state);
+    if (stateLines.length > 0) {
+      lines.push('  Current state:');
+      lines.push(...stateLines);
+    }
+  }
+  return lines.join('\n');
+}
+
+export function formatMonitorList(monitors: MonitorInfo[]): string {
+  if (monitors.length === 0) return 'No monitors are running. Use create_monitor to start one.';
+  const lines: string[] = [`Monitors (${monitors.length})`];
+  lines.push('');
+  lines.push('  | ID | Check | Interval | Runs | Last run | Status |');
+  lines.push('  |----|-------|----------|------|----------|--------|');
+  for (const m of monitors) {
+    const status = m.last_error ?? m.last_state?.global_status ?? 'ok';
+    lines.push(`  | ${m.id} | ${m.tool} ${m.target} | ${m.interval_minutes} min | ${m.runs} | ${m.last_run_at ?? 'never'} | ${status} |`);
+  }
+  return lines.join('\n');
+}
+
+// ── Quota Preflight ─────────────────────────────────────────
+
+export function formatPreflight(toolName: string, p: PreflightResult, dryRun: boolean): string {
+  const e = p.estimate;
+  const cost: string[] = [];
+  if (e.diagnostic_runs > 0 || e.diagnostic_runs_max) {
+    const runs = e.diagnostic_runs_max && e.diagnostic_runs_max > e.diagnostic_runs
+      ? `${e.diagnostic_runs}-${e.diagnostic_runs_max}`
+      : `${e.diagnostic_runs}`;
+    cost.push(`${runs} diagnostic run${runs === '1' ? '' : 's'}`);
+  }
+  if (e.recurring_runs_per_day) cost.push(`then about ${e.recurring_runs_per_day} runs/day`);
+  if (e.proxy_hours > 0) cost.push(`${e.proxy_hours} proxy hour${e.proxy_hours === 1 ? '' : 's'}`);
+
+  const verdict = p.verdict === 'block' ? 'Would be refused' : p.verdict === 'warn' ? 'OK with warnings' : 'OK to run';
+  const lines: string[] = [`${dryRun ? 'Dry run' : 'Preflight'}: ${toolName}`];
+  lines.push(`  Estimated cost: ${cost.join(', ') || 'no quota'}`);
+  const usesDiagnostics = e.diagnostic_runs > 0 || !!e.recurring_runs_per_day;
+  if (usesDiagnostics && p.remaining) {
+    const r = p.remaining;
+    lines.push(`  Diagnostics remaining: ${r.minute} this minute | ${r.hour} this hour | ${r.day} today | ${r.month} this month`);
+  }
+  if (!usesDiagnostics && p.proxy_hours_remaining !== null) lines.push(`  Proxy hours remaining today: ${p.proxy_hours_remaining}`);
+  lines.push(`  Verdict: ${verdict}`);
+  for (const m of p.messages) lines.push(`    - ${m}`);
+  return lines.join('\n');
+}
+
 // ── Geo Proxy ───────────────────────────────────────────────
 
 export function formatGeoProxy(data: GeoProxyResponse, proxyFqdn?: string): string {
@@ -268,6 +690,174 @@ export function formatGeoProxy(data: GeoProxyResponse, proxyFqdn?: string): stri
   return lines.join('\n');
 }
 
+/**
+ * Proxy tokens on the account, active first. `currentTokenId` marks the
+ * token this server reuses for geo_browse.
+ */
+export function formatProxyTokenList(tokens: ProxyTokenSummary[], currentTokenId: string | null, maxActive: number | null): string {
+  if (tokens.length === 0) return 'No proxy tokens on this account. get_geo_proxy or geo_browse creates one.';
+  const active = tokens.filter((t) => t.is_active);
+  const sorted = [...active, ...tokens.filter((t) => !t.is_active)];
+  const lines: string[] = [`Proxy Tokens (${active.length} active${maxActive !== null ? ` of ${maxActive} allowed` : ''}, ${tokens.length} total)`];
+  lines.push('');
+  lines.push('  | Token ID | Label | Region | Created | Expires | Status |');
+  lines.push('  |----------|-------|--------|---------|---------|--------|');
+  for (const t of sorted) {
+    const status = (t.is_active ? 'active' : 'inactive') + (t.token_id === currentTokenId ? ' (used by this server)' : '');
+    lines.push(`  | ${t.token_id} | ${t.label || '-'} | ${t.region} | ${t.created_at} | ${t.expires_at} | ${status} |`);
+  }
+  if (maxActive !== null && active.length >= maxActive) {
+    lines.push('');
+    lines.push('  WARNING: active token limit reached. Revoke a token with revoke_proxy_token before creating another.');
+  }
+  return lines.join('\n');
+}
+
+// ── Geo Browse Steps ────────────────────────────────────────
+
+export function formatStepOutcomes(outcomes: StepOutcome[]): string {
+  const ok = outcomes.filter((o) => o.status === 'ok').length;
+  const failed = outcomes.find((o) => o.status === 'failed');
+  const lines: string[] = [`Steps (${ok} of ${outcomes.length} ok${failed ? `, FAILED at step ${failed.step}` : ''}):`];
+  for (const o of outcomes) {
+    const what = o.target ? `${o.action} ${o.target}` : o.action;
+    const status = o.status === 'ok' ? 'OK' : o.status.toUpperCase();
+    lines.push(`  ${o.step}. ${what}: ${status}${o.detail ? ` - ${o.detail}` : ''}${o.status === 'skipped' ? '' : ` (${o.duration_ms}ms)`}`);
+  }
+  return lines.join('\n');
+}
+
+// ── Page Performance ────────────────────────────────────────
+
+// Core Web Vitals thresholds: [good up to, needs improvement up to]
+const VITAL_THRESHOLDS = { lcp_ms: [2500, 4000], cls: [0.1, 0.25], inp_ms: [200, 500] } as const;
+
+function vital(key: keyof typeof VITAL_THRESHOLDS, value: number | null, unit: string): string {
+  if (value === null) return 'n/a';
+  const [good, poor] = VITAL_THRESHOLDS[key];
+  const rating = value <= good ? 'good' : value <= poor ? 'needs improvement' : 'poor';
+  return `${value}${unit} (${rating})`;
+}
+
+function ms(value: number | null): string {
+  return value === null ? '-' : `${value}ms`;
+}
+
+/** Navigation timing and Web Vitals for one region's page load */
+export function formatPagePerformance(p: PagePerformance, regionLabel: string): string {
+  return [
+    `Performance from ${regionLabel}:`,
+    `  Navigation: DNS ${ms(p.dns_ms)} | Connect ${ms(p.connect_ms)} | TLS ${ms(p.tls_ms)} | TTFB ${ms(p.ttfb_ms)} | DOMContentLoaded ${ms(p.dom_content_loaded_ms)} | Load ${p.load_ms === null ? 'not reached' : `${p.load_ms}ms`}`,
+    `  Web Vitals: LCP ${vital('lcp_ms', p.lcp_ms, 'ms')} | CLS ${vital('cls', p.cls, '')} | INP ${p.inp_ms === null ? 'n/a (no interactions)' : vital('inp_ms', p.inp_ms, 'ms')}`,
+    '  Timings include the proxy hop; DNS for the site is resolved by the proxy node.',
+  ].join('\n');
+}
+
+// ── Network Capture ─────────────────────────────────────────
+
+function formatBytes(n: number | null): string {
+  if (n === null) return '-';
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function shortUrl(url: string): string {
+  return url.length > 100 ? url.slice(0, 97) + '...' : url;
+}
+
+export function formatNetworkSummary(data: NetworkSummary): string {
+  const lines: string[] = [
+    `Network: ${data.total_requests} requests, ${formatBytes(data.total_bytes)}, ${data.failed_count} failed, ${data.third_party_domains.length} third-party domain(s)` +
+    (data.pending_requests > 0 ? `, ${data.pending_requests} still loading` : ''),
+  ];
+
+  if (data.failed.length > 0) {
+    lines.push('');
+    lines.push('  Failed requests:');
+    lines.push('  | Status | Type | URL | Initiator |');
+    lines.push('  |--------|------|-----|-----------|');
+    for (const e of data.failed) {
+      lines.push(`  | ${e.failure ?? e.status} | ${e.resource_type} | ${shortUrl(e.url)} | ${e.initiator ?? '-'} |`);
+    }
+    if (data.failed_count > data.failed.length) lines.push(`  ... ${data.failed_count - data.failed.length} more`);
+  }
+
+  if (data.slowest.length > 0) {
+    lines.push('');
+    lines.push('  Slowest resources:');
+    lines.push('  | Time | Size | Type | URL |');
+    lines.push('  |------|------|------|-----|');
+    for (const e of data.slowest) {
+      lines.push(`  | ${e.duration_ms}ms | ${formatBytes(e.size_bytes)} | ${e.resource_type} | ${shortUrl(e.url)} |`);
+    }
+  }
+
+  if (data.third_party_domains.length > 0) {
+    lines.push('');
+    lines.push('  Third-party domains:');
+    lines.push('  | Domain | Requests | Size | Failed |');
+    lines.push('  |--------|----------|------|--------|');
+    for (const d of data.third_party_domains) {
+      lines.push(`  | ${d.domain} | ${d.requests} | ${formatBytes(d.bytes)} | ${d.failed} |`);
+    }
+  }
+
+  if (data.har_path) lines.push('', `  HAR written to ${data.har_path}`);
+  return lines.join('\n');
+}
+
+// ── Geo Compare ─────────────────────────────────────────────
+
+export function formatGeoCompare(data: GeoCompareResult): string {
+  const lines: string[] = [`Geo Compare: ${data.url}`];
+  lines.push(`  Reference region: ${data.reference_region}${data.renderer === 'http' ? ' | Raw HTML (no browser rendering)' : ''}`);
+  lines.push('');
+  lines.push('  | Region | Location | Status | Final URL | Title | Language | Currency | vs Reference |');
+  lines.push('  |--------|----------|--------|-----------|-------|----------|----------|--------------|');
+  for (const r of data.regions) {
+    if (r.error) {
+      lines.push(`  | ${r.region} | ${r.location} | FAIL: ${r.error} | - | - | - | - | - |`);
+      continue;
+    }
+    const vs = r.region === data.reference_region ? '(reference)'
+      : !r.diff ? '-'
+      : r.diff.identical ? 'identical'
+      : `${Math.round(r.diff.similarity * 100)}% similar`;
+    lines.push(`  | ${r.region} | ${r.location} | ${r.status ?? '-'} | ${r.final_url ?? '-'} | ${r.title || '-'} | ${r.language ?? '-'} | ${r.currencies.join(', ') || '-'} | ${vs} |`);
+  }
+  lines.push('');
+
+  const measured = data.regions.filter((r) => r.performance);
+  if (measured.length > 0) {
+    lines.push('  | Region | TTFB | DOMContentLoaded | Load | LCP | CLS |');
+    lines.push('  |--------|------|------------------|------|-----|-----|');
+    for (const r of measured) {
+      const p = r.performance!;
+      lines.push(`  | ${r.region} | ${ms(p.ttfb_ms)} | ${ms(p.dom_content_loaded_ms)} | ${ms(p.load_ms)} | ${vital('lcp_ms', p.lcp_ms, 'ms')} | ${vital('cls', p.cls, '')} |`);
+    }
+    lines.push('');
+  }
+
+  if (data.differences.length === 0) {
+    lines.push(`  No differences from ${data.reference_region}.`);
+  } else {
+    lines.push('  Differences:');
+    for (const d of data.differences) lines.push(`    - ${d}`);
+  }
+
+  for (const r of data.regions) {
+    if (!r.diff || r.diff.identical) continue;
+    lines.push('');
+    lines.push(`  Text diff ${r.region} vs ${data.reference_region}:`);
+    for (const l of r.diff.removed) lines.push(`    - ${l}`);
+    if (r.diff.removed_count > r.diff.removed.length) lines.push(`    - ... ${r.diff.removed_count - r.diff.removed.length} more removed`);
+    for (const l of r.diff.added) lines.push(`    + ${l}`);
+    if (r.diff.added_count > r.diff.added.length) lines.push(`    + ... ${r.diff.added_count - r.diff.added.length} more added`);
+  }
+  return lines.join('\n');
+}
+
 // ── Regions ─────────────────────────────────────────────────
 
 export function formatRegions(data: RegionsResponse): string {
@@ -0,0 +1,499 @@
+import type { Browser, BrowserContext, Page, Request, devices } from 'playwright-core';
+import type { IncomingHttpHeaders } from 'node:http';
+import { join } from 'node:path';
+import { RegionGeo, BrowseStep, StepOutcome, NetworkRequestEntry, NetworkSummary, ThirdPartyDomain, PagePerformance } from './types.js';
+
+// Brief wait for key visual elements to render after the DOM is ready
+export const SETTLE_MS = 2000;
+
+const MAX_REDIRECTS = 5;
+
+const DEFAULT_STEP_TIMEOUT_MS = 10_000;
+
+// Rows kept in each network summary table
+const MAX_FAILED_REQUESTS = 20;
+const MAX_SLOWEST_REQUESTS = 10;
+const MAX_THIRD_PARTY_DOMAINS = 20;
+
+// Accept buttons of common consent platforms (OneTrust, Cookiebot, Didomi,
+// Quantcast, TrustArc, Complianz, Osano), tried before matching by label
+const CONSENT_SELECTORS = [
+  '#onetrust-accept-btn-handler',
+  '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',
+  '#CybotCookiebotDialogBodyButtonAccept',
+  '#didomi-notice-agree-button',
+  '.qc-cmp2-summary-buttons button[mode="primary"]',
+  '#truste-consent-button',
+  '.cmplz-accept',
+  '.osano-cm-accept-all',
+];
+const CONSENT_LABEL = /^\s*(accept( all)?( cookies)?|allow( all)?( cookies)?|agree|i agree|got it|ok|alle akzeptieren|akzeptieren|tout accepter|accepter|aceptar( todo)?|accetta( tutti)?|aceitar( todos)?)\s*$/i;
+
+export type DeviceDescriptor = typeof devices[string];
+
+/** Proxy node and credential for one region */
+export interface ProxyRoute {
+  server: string;
+  jwt: string;
+}
+
+// ── Browser Detection ───────────────────────────────────────
+
+/**
+ * Whether playwright-core is installed and its Chromium has been downloaded.
+ * Checked before a proxy token is acquired.
+ */
+export async function hasChromium(): Promise<boolean> {
+  try {
+    const pw = await import('playwright-core');
+    const fs = await import('fs');
+    const execPath = pw.chromium.executablePath();
+    return !!execPath && fs.existsSync(execPath);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Look up a Playwright device descriptor ("iPhone 15", "Pixel 7", ...),
+ * ignoring case, with its canonical name. Unknown names throw with close
+ * matches suggested.
+ */
+export async function resolveDevice(name: string): Promise<{ name: string; descriptor: DeviceDescriptor }> {
+  let all: typeof devices;
+  try {
+    ({ devices: all } = await import('playwright-core'));
+  } catch {
+    throw new Error('Device emulation needs playwright-core. Install it with: npm install playwright-core');
+  }
+  const key = Object.keys(all).find((n) => n.toLowerCase() === name.trim().toLowerCase());
+  if (key) return { name: key, descriptor: all[key] };
+  const word = name.trim().toLowerCase().split(/\s+/)[0];
+  const suggestions = Object.keys(all).filter((n) => n.toLowerCase().includes(word) && !n.endsWith('landscape')).slice(0, 8);
+  throw new Error(`Unknown device "${name}". ${suggestions.length > 0
+    ? `Did you mean: ${suggestions.join(', ')}?`
+    : 'Use a Playwright device name such as "iPhone 15", "Pixel 7" or "iPad Mini" (add " landscape" for landscape).'}`);
+}
+
+export async function launchBrowser(): Promise<Browser> {
+  const { chromium } = await import('playwright-core');
+  return chromium.launch({ headless: true });
+}
+
+export interface ContextOptions {
+  userAgent: string;
+  geo?: RegionGeo;
+  /** Device to emulate; its user agent replaces `userAgent` */
+  device?: DeviceDescriptor;
+  /** Overrides the device's (or the default 1280×720) viewport */
+  viewport?: { width: number; height: number };
+  /** Record a HAR file (without bodies), written when the context closes */
+  harPath?: string;
+}
+
+/**
+ * A browser context routed through a region's proxy node, emulating the
+ * region's timezone, locale and geolocation when `geo` is given.
+ */
+export function newGeoContext(browser: Browser, proxy: ProxyRoute, options: ContextOptions): Promise<BrowserContext> {
+  const { userAgent, geo, device, viewport, harPath } = options;
+  return browser.newContext({
+    proxy: {
+      server: proxy.server,
+      username: proxy.jwt,
+      password: '',
+    },
+    userAgent,
+    viewport: { width: 1280, height: 720 },
+    ...device,
+    ...(viewport && { viewport }),
+    ...(harPath && { recordHar: { path: harPath, content: 'omit' as const } }),
+    ...(geo && {
+      timezoneId: geo.timezone,
+      locale: geo.locale,
+      geolocation: { latitude: geo.lat, longitude: geo.lng },
+      permissions: ['geolocation'],
+    }),
+  });
+}
+
+// ── Page Capture ────────────────────────────────────────────
+
+export interface PageSnapshot {
+  status: number | null;
+  finalUrl: string;
+  title: string;
+  language: string | null;
+  text: string;
+  performance: PagePerformance;
+  screenshot?: Buffer;
+}
+
+/** Load `url` in a new page of `context` and read what a comparison needs */
+export async function capturePage(context: BrowserContext, url: string, timeoutMs: number, screenshot: boolean): Promise<PageSnapshot> {
+  const page = await context.newPage();
+  await observeVitals(page);
+  const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
+  await page.waitForTimeout(SETTLE_MS);
+  const lang = await page.evaluate('document.documentElement.lang') as string;
+  return {
+    status: response?.status() ?? null,
+    finalUrl: page.url(),
+    title: await page.title(),
+    language: lang || response?.headers()['content-language'] || null,
+    text: await page.evaluate('document.body ? document.body.innerText : ""') as string,
+    performance: await readPerformance(page),
+    screenshot: screenshot ? await page.screenshot({ type: 'png', fullPage: false }) : undefined,
+  };
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Lay labelled screenshots out in a grid (up to three per row) and capture
+ * the grid as one PNG, using the browser that took them.
+ */
+export async function composeSideBySide(browser: Browser, shots: Array<{ label: string; png: Buffer }>): Promise<Buffer> {
+  const columns = Math.min(3, shots.length);
+  const page = await browser.newPage({ viewport: { width: columns * 650 + 10, height: 400 } });
+  try {
+    const cells = shots.map((s) =>
+      `<figure style="margin:0"><figcaption style="font-weight:bold;padding:4px 0">${escapeHtml(s.label)}</figcaption>` +
+      `<img style="width:640px;border:1px solid #ccc" src="data:image/png;base64,${s.png.toString('base64')}"></figure>`);
+    await page.setContent(
+      `<html><body style="margin:0;font:14px sans-serif;background:#fff">` +
+      `<div style="display:grid;grid-template-columns:repeat(${columns},640px);gap:10px;padding:5px">${cells.join('')}</div></body></html>`);
+    return await page.screenshot({ type: 'png', fullPage: true });
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Screenshot of the viewport, the full scrollable page, or one element.
+ * When the element can't be captured the viewport is used and `note` says why.
+ */
+export async function takeScreenshot(page: Page, options: { fullPage?: boolean; selector?: string; timeoutMs: number }): Promise<{ png: Buffer; note: string | null }> {
+  if (options.selector) {
+    try {
+      return { png: await page.locator(options.selector).first().screenshot({ type: 'png', timeout: options.timeoutMs }), note: null };
+    } catch (err) {
+      const message = (err instanceof Error ? err.message : String(err)).split('\n')[0];
+      const note = `Element ${options.selector} could not be captured (${message}); showing the ${options.fullPage ? 'full page' : 'viewport'} instead.`;
+      return { png: await page.screenshot({ type: 'png', fullPage: !!options.fullPage }), note };
+    }
+  }
+  return { png: await page.screenshot({ type: 'png', fullPage: !!options.fullPage }), note: null };
+}
+
+/** Print the page to PDF (A4, with backgrounds), as Chromium would */
+export function renderPdf(page: Page): Promise<Buffer> {
+  return page.pdf({ format: 'A4', printBackground: true });
+}
+
+// ── Performance ─────────────────────────────────────────────
+
+// Runs in the page before any of its scripts. LCP keeps the latest
+// candidate, CLS sums shifts not caused by input (no session windows), and
+// INP keeps the slowest interaction, so all three are approximations.
+const VITALS_SCRIPT = `(() => {
+  const v = { lcp: null, cls: 0, inp: null };
+  window.__probeopsVitals = v;
+  const observe = (type, fn, opts) => {
+    try { new PerformanceObserver((list) => list.getEntries().forEach(fn)).observe({ type, buffered: true, ...opts }); } catch {}
+  };
+  observe('largest-contentful-paint', (e) => { v.lcp = e.renderTime || e.startTime; });
+  observe('layout-shift', (e) => { if (!e.hadRecentInput) v.cls += e.value; });
+  observe('event', (e) => { if (e.interactionId) v.inp = Math.max(v.inp || 0, e.duration); }, { durationThreshold: 16 });
+})()`;
+
+// Reads the navigation entry and the observed vitals, rounded to whole ms
+const READ_PERFORMANCE_SCRIPT = `(() => {
+  const n = performance.getEntriesByType('navigation')[0];
+  const v = window.__probeopsVitals || {};
+  const ms = (x) => (x == null || x < 0 ? null : Math.round(x));
+  return {
+    dns_ms: n ? ms(n.domainLookupEnd - n.domainLookupStart) : null,
+    connect_ms: n ? ms(n.connectEnd - n.connectStart) : null,
+    tls_ms: n && n.secureConnectionStart > 0 ? ms(n.connectEnd - n.secureConnectionStart) : null,
+    ttfb_ms: n ? ms(n.responseStart - n.startTime) : null,
+    dom_content_loaded_ms: n && n.domContentLoadedEventEnd > 0 ? ms(n.domContentLoadedEventEnd - n.startTime) : null,
+    load_ms: n && n.loadEventEnd > 0 ? ms(n.loadEventEnd - n.startTime) : null,
+    lcp_ms: ms(v.lcp),
+    cls: v.cls == null ? null : Math.round(v.cls * 1000) / 1000,
+    inp_ms: ms(v.inp),
+  };
+})()`;
+
+/** Start observing Core Web Vitals; call before the page navigates */
+export function observeVitals(page: Page): Promise<void> {
+  return page.addInitScript(VITALS_SCRIPT);
+}
+
+export async function readPerformance(page: Page): Promise<PagePerformance> {
+  return await page.evaluate(READ_PERFORMANCE_SCRIPT) as PagePerformance;
+}
+
+// ── Scripted Steps ──────────────────────────────────────────
+
+/**
+ * Click the accept button of a consent banner in the page or any of its
+ * frames. Finding no banner is not an error.
+ */
+async function dismissConsent(page: Page, timeoutMs: number): Promise<string> {
+  for (const frame of page.frames()) {
+    for (const selector of CONSENT_SELECTORS) {
+      const button = frame.locator(selector).first();
+      if (await button.isVisible().catch(() => false)) {
+        await button.click({ timeout: timeoutMs });
+        return `clicked ${selector}`;
+      }
+    }
+  }
+  for (const frame of page.frames()) {
+    const button = frame.getByRole('button', { name: CONSENT_LABEL }).first();
+    if (await button.isVisible().catch(() => false)) {
+      const label = (await button.innerText().catch(() => '')).trim();
+      await button.click({ timeout: timeoutMs });
+      return `clicked "${label}" button`;
+    }
+  }
+  return 'no consent banner found';
+}
+
+async function runStep(page: Page, step: BrowseStep): Promise<string | null> {
+  const timeout = ('timeout_ms' in step && step.timeout_ms) || DEFAULT_STEP_TIMEOUT_MS;
+  switch (step.action) {
+    case 'click':
+      await page.click(step.selector, { timeout });
+      return null;
+    case 'fill':
+      await page.fill(step.selector, step.value, { timeout });
+      return null;
+    case 'press':
+      if (step.selector) await page.press(step.selector, step.key, { timeout });
+      else await page.keyboard.press(step.key);
+      return null;
+    case 'wait_for_selector':
+      await page.waitForSelector(step.selector, { state: step.state ?? 'visible', timeout });
+      return null;
+    case 'wait_for_network_idle':
+      await page.waitForLoadState('networkidle', { timeout });
+      return null;
+    case 'wait':
+      await page.waitForTimeout(step.ms);
+      return null;
+    case 'scroll':
+      if (step.selector) {
+        await page.locator(step.selector).first().scrollIntoViewIfNeeded({ timeout });
+        return null;
+      }
+      await page.evaluate(step.to === 'top' ? 'window.scrollTo(0, 0)' : 'window.scrollTo(0, document.body.scrollHeight)');
+      return `scrolled to ${step.to ?? 'bottom'}`;
+    case 'dismiss_consent':
+      return dismissConsent(page, timeout);
+  }
+}
+
+/**
+ * Run steps in order. The first failure skips the remaining steps; the page
+ * is still captured as it is, so the failure can be seen.
+ */
+export async function runSteps(page: Page, steps: BrowseStep[]): Promise<StepOutcome[]> {
+  const outcomes: StepOutcome[] = [];
+  let failed = false;
+  for (const [i, step] of steps.entries()) {
+    const target = step.action === 'press' ? step.key : ('selector' in step && step.selector) || null;
+    const outcome = { step: i + 1, action: step.action, target };
+    if (failed) {
+      outcomes.push({ ...outcome, status: 'skipped', detail: 'an earlier step failed', duration_ms: 0 });
+      continue;
+    }
+    const started = Date.now();
+    try {
+      const detail = await runStep(page, step);
+      outcomes.push({ ...outcome, status: 'ok', detail, duration_ms: Date.now() - started });
+    } catch (err) {
+      failed = true;
+      // Playwright appends a multi-line call log; the first line says what went wrong
+      const message = (err instanceof Error ? err.message : String(err)).split('\n')[0];
+      outcomes.push({ ...outcome, status: 'failed', detail: message, duration_ms: Date.now() - started });
+    }
+  }
+  return outcomes;
+}
+
+// ── Network Capture ─────────────────────────────────────────
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
+
+// Second-level labels registries sell under a country code, as in co.uk or com.au
+const COUNTRY_SECOND_LEVEL = new Set(['co', 'com', 'net', 'org', 'gov', 'edu', 'ac', 'or', 'ne', 'go', 'gob', 'mil', 'nic', 'ltd', 'plc', 'sch']);
+
+/**
+ * Approximate registrable domain: the last two labels, or three under
+ * country suffixes like co.uk and com.au.
+ */
+function siteOf(host: string): string {
+  const labels = host.split('.');
+  if (labels.length <= 2 || /^\d+$/.test(labels[labels.length - 1])) return host;
+  const keep = labels[labels.length - 1].length === 2 && COUNTRY_SECOND_LEVEL.has(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
+
+async function requestEntry(request: Request, failure: string | null): Promise<Omit<NetworkRequestEntry, 'third_party'>> {
+  const response = failure ? null : await request.response().catch(() => null);
+  const sizes = response ? await request.sizes().catch(() => null) : null;
+  const { responseEnd } = request.timing();
+  let initiator: string | null = null;
+  try {
+    initiator = hostOf(request.frame().url()) || null;
+  } catch {
+    // Service worker requests have no frame
+  }
+  return {
+    url: request.url(),
+    method: request.method(),
+    resource_type: request.resourceType(),
+    domain: hostOf(request.url()),
+    initiator,
+    status: response?.status() ?? null,
+    size_bytes: sizes ? sizes.responseHeadersSize + sizes.responseBodySize : null,
+    duration_ms: responseEnd >= 0 ? Math.round(responseEnd) : null,
+    failure,
+  };
+}
+
+/**
+ * Start recording every request the page makes. Call the returned function
+ * after capture to get the entries and the number still in flight.
+ */
+export function recordNetwork(page: Page): () => Promise<{ entries: Omit<NetworkRequestEntry, 'third_party'>[]; pending: number }> {
+  const inFlight = new Set<Request>();
+  const done: Array<Promise<Omit<NetworkRequestEntry, 'third_party'>>> = [];
+  page.on('request', (request) => inFlight.add(request));
+  page.on('requestfinished', (request) => {
+    inFlight.delete(request);
+    done.push(requestEntry(request, null));
+  });
+  page.on('requestfailed', (request) => {
+    inFlight.delete(request);
+    done.push(requestEntry(request, request.failure()?.errorText ?? 'failed'));
+  });
+  return async () => ({ entries: await Promise.all(done), pending: inFlight.size });
+}
+
+/** `<dir>/<timestamp>_<region>_<host>.har` */
+export function harFilePath(dir: string, region: string, url: string): string {
+  const host = hostOf(url).replace(/[^A-Za-z0-9.-]/g, '_') || 'page';
+  return join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}_${region}_${host}.har`);
+}
+
+/**
+ * Failed requests (network errors and HTTP 4xx/5xx), the slowest
+ * resources and the third-party domains, relative to `pageUrl`'s site.
+ */
+export function summarizeNetwork(
+  recorded: { entries: Omit<NetworkRequestEntry, 'third_party'>[]; pending: number },
+  pageUrl: string,
+  harPath: string | null,
+): NetworkSummary {
+  const site = siteOf(hostOf(pageUrl));
+  const entries: NetworkRequestEntry[] = recorded.entries.map((e) => ({ ...e, third_party: !!e.domain && siteOf(e.domain) !== site }));
+
+  const failed = entries.filter((e) => e.failure || (e.status ?? 0) >= 400);
+
+  const domains = new Map<string, ThirdPartyDomain>();
+  for (const e of entries.filter((x) => x.third_party)) {
+    const d = domains.get(e.domain) ?? { domain: e.domain, requests: 0, bytes: 0, failed: 0 };
+    d.requests++;
+    d.bytes += e.size_bytes ?? 0;
+    if (e.failure || (e.status ?? 0) >= 400) d.failed++;
+    domains.set(e.domain, d);
+  }
+
+  return {
+    total_requests: entries.length,
+    total_bytes: entries.reduce((sum, e) => sum + (e.size_bytes ?? 0), 0),
+    pending_requests: recorded.pending,
+    failed_count: failed.length,
+    failed: failed.slice(0, MAX_FAILED_REQUESTS),
+    slowest: entries.filter((e) => e.duration_ms !== null)
+      .sort((a, b) => b.duration_ms! - a.duration_ms!)
+      .slice(0, MAX_SLOWEST_REQUESTS),
+    third_party_domains: [...domains.values()].sort((a, b) => b.requests - a.requests || b.bytes - a.bytes).slice(0, MAX_THIRD_PARTY_DOMAINS),
+    har_path: harPath,
+  };
+}
+
+// ── HTTP Fallback (no Chromium) ─────────────────────────────
+
+export interface ProxyFetchResult {
+  status: number;
+  finalUrl: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * GET `url` through the proxy with node:https and HttpsProxyAgent,
+ * following up to MAX_REDIRECTS redirects.
+ */
+export async function fetchViaProxy(url: string, proxy: ProxyRoute, userAgent: string, timeoutMs: number): Promise<ProxyFetchResult> {
+  const { HttpsProxyAgent } = await import('https-proxy-agent');
+  const https = await import('node:https');
+  const http = await import('node:http');
+
+  const proxyUrl = new URL(proxy.server);
+  proxyUrl.username = proxy.jwt;
+  proxyUrl.password = '';
+  const agent = new HttpsProxyAgent(proxyUrl.toString());
+
+  return new Promise<ProxyFetchResult>((resolve, reject) => {
+    let redirectCount = 0;
+
+    function doRequest(requestUrl: string) {
+      const parsedUrl = new URL(requestUrl);
+      const mod = parsedUrl.protocol === 'https:' ? https : http;
+      const req = mod.request(requestUrl, {
+        agent,
+        headers: {
+          'User-Agent': userAgent,
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        },
+        timeout: timeoutMs,
+      }, (res) => {
+        // Follow 3xx redirects
+        if (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
+          redirectCount++;
+          if (redirectCount > MAX_REDIRECTS) {
+            reject(new Error(`Too many redirects (>${MAX_REDIRECTS})`));
+            return;
+          }
+          const redirectUrl = new URL(res.headers.location, requestUrl).toString();
+          process.stderr.write(`[probeops] Following redirect ${res.statusCode} → ${redirectUrl}\n`);
+          res.resume(); // drain the response
+          doRequest(redirectUrl);
+          return;
+        }
+        let data = '';
+        res.on('data', (chunk: Buffer) => data += chunk.toString());
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, finalUrl: requestUrl, headers: res.headers, body: data }));
+        res.on('error', reject);
+      });
+      req.on('error', reject);
+      req.on('timeout', () => { req.destroy(); reject(new Error('Request timed out')); });
+      req.end();
+    }
+
+    doRequest(url);
+  });
+}
@@ -0,0 +1,164 @@
+import { GeoPageCapture, GeoCompareRegion, GeoCompareResult, TextDiff } from './types.js';
+
+// Longer pages are compared on their first lines only
+const MAX_DIFF_LINES = 1500;
+// Changed lines kept per region in the result
+const MAX_DIFF_SAMPLES = 10;
+
+// A currency symbol or code next to an amount, e.g. "$19", "€ 19", "19 EUR"
+const CURRENCY_PATTERNS: Array<[string, RegExp]> = [
+  ['AUD', /(?:A\$|AU\$)\s?\d|\bAUD\b/g],
+  ['CAD', /(?:C\$|CA\$)\s?\d|\bCAD\b/g],
+  ['USD', /(?:US\$|(?<![A-Za-z])\$)\s?\d|\bUSD\b/g],
+  ['EUR', /€|\bEUR\b/g],
+  ['GBP', /£|\bGBP\b/g],
+  ['INR', /₹|\bINR\b|\bRs\.?\s?\d/g],
+  ['JPY', /¥|\bJPY\b/g],
+];
+
+// ── Page Text ───────────────────────────────────────────────
+
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** Title, language and readable text from raw HTML (used without a browser) */
+export function readHtml(html: string): { title: string | null; language: string | null; text: string } {
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  const language = /<html[^>]*\slang=["']?([\w-]+)/i.exec(html)?.[1];
+  const text = html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<head[^>]*>[\s\S]*?<\/head>/i, '')
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6]|tr|section|article|header|footer)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+  return {
+    title: title ? decodeEntities(title).trim() : null,
+    language: language ?? null,
+    text: decodeEntities(text),
+  };
+}
+
+/** Currencies mentioned on a page, most frequent first */
+export function detectCurrencies(text: string): string[] {
+  return CURRENCY_PATTERNS
+    .map(([code, re]) => [code, text.match(re)?.length ?? 0] as const)
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([code]) => code);
+}
+
+function textLines(text: string): string[] {
+  return text.split('\n').map((l) => l.replace(/\s+/g, ' ').trim()).filter(Boolean).slice(0, MAX_DIFF_LINES);
+}
+
+/**
+ * Line diff of `text` against `reference` (longest common subsequence).
+ * Lines are whitespace-normalised and blank lines ignored.
+ */
+export function diffText(reference: string, text: string): TextDiff {
+  const a = textLines(reference);
+  const b = textLines(text);
+  const width = b.length + 1;
+  // lcs[i * width + j]: common lines of a[i..] and b[j..]
+  const lcs = new Uint16Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++; j++;
+    } else if (j < b.length && (i >= a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+
+  const common = lcs[0];
+  const total = a.length + b.length;
+  return {
+    identical: added.length === 0 && removed.length === 0,
+    similarity: total === 0 ? 1 : Math.round((2 * common / total) * 1000) / 1000,
+    added: added.slice(0, MAX_DIFF_SAMPLES),
+    removed: removed.slice(0, MAX_DIFF_SAMPLES),
+    added_count: added.length,
+    removed_count: removed.length,
+  };
+}
+
+// ── Comparison ──────────────────────────────────────────────
+
+/**
+ * Summarise each region's capture and compare it with the reference
+ * region. `locations` labels regions in the result.
+ */
+export function compareGeoPages(
+  url: string,
+  captures: GeoPageCapture[],
+  referenceRegion: string,
+  renderer: GeoCompareResult['renderer'],
+  locations: Record<string, string>,
+): GeoCompareResult {
+  const reference = captures.find((c) => c.region === referenceRegion);
+  const refOk = reference && !reference.error ? reference : null;
+
+  const regions: GeoCompareRegion[] = captures.map((c) => {
+    const currencies = c.error ? [] : detectCurrencies(c.text);
+    return {
+      region: c.region,
+      location: locations[c.region] ?? c.region,
+      final_url: c.final_url,
+      status: c.status,
+      title: c.title,
+      language: c.language,
+      currency: currencies[0] ?? null,
+      currencies,
+      diff: refOk && c !== refOk && !c.error ? diffText(refOk.text, c.text) : null,
+      performance: c.performance,
+      error: c.error,
+    };
+  });
+
+  const differences: string[] = [];
+  const ref = regions.find((r) => r.region === referenceRegion);
+  if (!ref || ref.error) {
+    differences.push(`Reference region ${referenceRegion} failed to load${ref?.error ? ` (${ref.error})` : ''}; no diffs computed.`);
+  }
+  for (const r of regions) {
+    if (r.region === referenceRegion) continue;
+    if (r.error) {
+      differences.push(`${r.region}: failed to load (${r.error})`);
+      continue;
+    }
+    if (!ref || ref.error) continue;
+    const changes: string[] = [];
+    if (r.status !== ref.status) changes.push(`status ${r.status ?? '-'} vs ${ref.status ?? '-'}`);
+    if (r.final_url !== ref.final_url) changes.push(`final URL ${r.final_url} vs ${ref.final_url}`);
+    if (r.title !== ref.title) changes.push(`title "${r.title ?? ''}" vs "${ref.title ?? ''}"`);
+    if (r.language !== ref.language) changes.push(`language ${r.language ?? 'unknown'} vs ${ref.language ?? 'unknown'}`);
+    if (r.currency !== ref.currency) changes.push(`currency ${r.currency ?? 'none'} vs ${ref.currency ?? 'none'}`);
+    if (r.diff && !r.diff.identical) changes.push(`content ${Math.round(r.diff.similarity * 100)}% similar (+${r.diff.added_count}/-${r.diff.removed_count} lines)`);
+    if (changes.length > 0) differences.push(`${r.region}: ${changes.join('; ')}`);
+  }
+
+  return {
+    url,
+    reference_region: referenceRegion,
+    renderer,
+    regions,
+    differences,
+    compared_at: new Date().toISOString(),
+  };
+}
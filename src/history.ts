@@ -0,0 +1,124 @@
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { HistoryEntry, HistoryQuery, V1RunResponse } from './types.js';
+
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Parse a time bound: an ISO timestamp, or a relative duration such as
+ * "30m", "24h" or "7d" meaning that long before now.
+ */
+export function parseTimeBound(value: string): number {
+  const relative = /^(\d+)\s*([mhdw])$/i.exec(value.trim());
+  if (relative) {
+    const unitMs: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+    return Date.now() - parseInt(relative[1], 10) * unitMs[relative[2].toLowerCase()];
+  }
+  const ts = Date.parse(value);
+  if (Number.isNaN(ts)) {
+    throw new Error(`Invalid time "${value}". Use an ISO timestamp or a duration like 30m, 24h, 7d.`);
+  }
+  return ts;
+}
+
+function monthKey(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 7); // YYYY-MM
+}
+
+/**
+ * Append-only JSONL store of diagnostic runs, one file per month
+ * (`runs-YYYY-MM.jsonl`). Several accounts may share a directory; each
+ * store only sees entries recorded under its own account id.
+ */
+export class HistoryStore {
+  private ready: Promise<void> | null = null;
+
+  constructor(private dir: string, private accountId: string) {}
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.dir, { recursive: true, mode: 0o700 }).then(() => undefined);
+      this.ready.catch(() => { this.ready = null; });
+    }
+    return this.ready;
+  }
+
+  async record(data: V1RunResponse): Promise<void> {
+    const checkedAt = Date.parse(data.checked_at);
+    const entry: HistoryEntry = {
+      account: this.accountId,
+      tool: data.tool,
+      target: data.target,
+      checked_at: Number.isNaN(checkedAt) ? new Date().toISOString() : data.checked_at,
+      data,
+    };
+    await this.ensureDir();
+    const file = join(this.dir, `runs-${monthKey(Date.parse(entry.checked_at))}.jsonl`);
+    await fs.appendFile(file, JSON.stringify(entry) + '\n', { mode: 0o600 });
+  }
+
+  /**
+   * Find matching runs, newest first. Only the monthly files that overlap
+   * the requested time range are read.
+   */
+  async query(q: HistoryQuery): Promise<HistoryEntry[]> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.dir)).filter((f) => /^runs-\d{4}-\d{2}\.jsonl$/.test(f));
+    } catch {
+      return [];
+    }
+    const fromMonth = q.since !== undefined ? monthKey(q.since) : '0000-00';
+    const toMonth = q.until !== undefined ? monthKey(q.until) : '9999-99';
+    files = files.filter((f) => f.slice(5, 12) >= fromMonth && f.slice(5, 12) <= toMonth).sort().reverse();
+
+    const limit = q.limit ?? DEFAULT_LIMIT;
+    const target = q.target?.toLowerCase();
+    const results: HistoryEntry[] = [];
+
+    for (const file of files) {
+      const matches: HistoryEntry[] = [];
+      const text = await fs.readFile(join(this.dir, file), 'utf-8');
+      for (const line of text.split('\n')) {
+        if (!line) continue;
+        let entry: HistoryEntry;
+        try {
+          entry = JSON.parse(line) as HistoryEntry;
+        } catch {
+          continue; // partial line from an interrupted write
+        }
+        if (entry.account !== this.accountId) continue;
+        if (q.tool && entry.tool !== q.tool) continue;
+        if (target && entry.target.toLowerCase() !== target) continue;
+        const ts = Date.parse(entry.checked_at);
+        if (q.since !== undefined && ts < q.since) continue;
+        if (q.until !== undefined && ts > q.until) continue;
+        if (q.region) {
+          const regionResults = entry.data.regions_checked.filter((r) => r.region === q.region);
+          if (regionResults.length === 0) continue;
+          entry = { ...entry, data: { ...entry.data, regions_checked: regionResults } };
+        }
+        matches.push(entry);
+      }
+      matches.sort((a, b) => Date.parse(b.checked_at) - Date.parse(a.checked_at));
+      results.push(...matches);
+      if (results.length >= limit) break;
+    }
+
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Distinct tool/target pairs seen recently, newest first.
+   */
+  async recentTargets(limit = 50): Promise<Array<{ tool: string; target: string }>> {
+    const entries = await this.query({ limit: 500 });
+    const seen = new Map<string, { tool: string; target: string }>();
+    for (const e of entries) {
+      const key = `${e.tool}\n${e.target}`;
+      if (!seen.has(key)) seen.set(key, { tool: e.tool, target: e.target });
+      if (seen.size >= limit) break;
+    }
+    return [...seen.values()];
+  }
+}
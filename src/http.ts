@@ -0,0 +1,269 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ProbeOpsAccount } from './account.js';
+import { createServer, ServerOptions } from './server.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// Sessions with no request for this long are closed
+const SESSION_IDLE_MS = 30 * 60_000;
+const SESSION_SWEEP_MS = 60_000;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Shared bearer token every client must present */
+  authToken: string;
+  /** Account used when a client does not send X-ProbeOps-Api-Key */
+  defaultAccount?: ProbeOpsAccount;
+  /**
+   * Resolve (or create) the shared account state for an API key, counted as
+   * used by one more session; null when no more accounts can be kept
+   */
+  acquireAccount: (apiKey: string) => ProbeOpsAccount | null;
+  /** Called once when a session that acquired an account ends */
+  releaseAccount: (account: ProbeOpsAccount) => void;
+  /** Profiles and settings shared by every session */
+  serverOptions: ServerOptions;
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Constant-time bearer token check. Both sides are hashed first so the
+ * comparison does not leak the token length.
+ */
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const given = createHash('sha256').update(match[1].trim()).digest();
+  const expected = createHash('sha256').update(authToken).digest();
+  return timingSafeEqual(given, expected);
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const raw = Buffer.concat(chunks).toString('utf-8');
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// ── HTTP Server ─────────────────────────────────────────────
+
+/**
+ * Serve MCP over Streamable HTTP (`/mcp`) with the legacy HTTP+SSE transport
+ * (`GET /sse` + `POST /messages`) as a fallback for older clients.
+ *
+ * Every request must carry `Authorization: Bearer <authToken>`. Each session
+ * gets its own McpServer, bound to the account for the ProbeOps API key
+ * presented when the session was opened, so quota and proxy token caches are
+ * shared per API key rather than across the whole process. Sessions idle for
+ * SESSION_IDLE_MS are closed, releasing their account.
+ */
+export function startHttpServer(options: HttpServerOptions): Promise<void> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  // Last request time of every open session, for idle expiry
+  const lastActivity = new Map<string, number>();
+
+  /**
+   * Account for a new session, with a `release` to call when it ends. Sends
+   * the error response and returns null when there is none.
+   */
+  function openAccount(req: IncomingMessage, res: ServerResponse): { account: ProbeOpsAccount; release: () => void } | null {
+    const headerKey = req.headers['x-probeops-api-key'];
+    const apiKey = Array.isArray(headerKey) ? headerKey[0] : headerKey;
+    if (!apiKey) {
+      if (options.defaultAccount) return { account: options.defaultAccount, release: () => {} };
+      sendJsonRpcError(res, 401, -32001, 'Missing ProbeOps API key. Send an X-ProbeOps-Api-Key header or set PROBEOPS_API_KEY on the server.');
+      return null;
+    }
+    const account = options.acquireAccount(apiKey);
+    if (!account) {
+      sendJsonRpcError(res, 503, -32000, 'Too many ProbeOps API keys in use on this server. Try again later.');
+      return null;
+    }
+    let released = false;
+    return {
+      account,
+      release: () => {
+        if (released) return;
+        released = true;
+        options.releaseAccount(account);
+      },
+    };
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      let transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+
+      if (!transport) {
+        if (sessionId) {
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        if (!isInitializeRequest(body)) {
+          sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+          return;
+        }
+        const opened = openAccount(req, res);
+        if (!opened) return;
+        const newTransport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            streamableTransports.set(id, newTransport);
+            lastActivity.set(id, Date.now());
+            process.stderr.write(`[probeops] HTTP session ${id} opened\n`);
+          },
+        });
+        newTransport.onclose = () => {
+          opened.release();
+          if (newTransport.sessionId) {
+            streamableTransports.delete(newTransport.sessionId);
+            lastActivity.delete(newTransport.sessionId);
+            process.stderr.write(`[probeops] HTTP session ${newTransport.sessionId} closed\n`);
+          }
+        };
+        try {
+          await createServer(opened.account, options.serverOptions).connect(newTransport);
+          await newTransport.handleRequest(req, res, body);
+        } finally {
+          // Initialization failed, so no session will ever close
+          if (!newTransport.sessionId) opened.release();
+        }
+        return;
+      }
+
+      lastActivity.set(sessionId!, Date.now());
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      const transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+      if (!transport) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? 'Session not found' : 'Bad Request: Mcp-Session-Id header is required');
+        return;
+      }
+      lastActivity.set(sessionId!, Date.now());
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    sendJsonRpcError(res, 405, -32000, 'Method not allowed', { Allow: 'GET, POST, DELETE' });
+  }
+
+  async function handleSseStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const opened = openAccount(req, res);
+    if (!opened) return;
+    const transport = new SSEServerTransport('/messages', res);
+    sseTransports.set(transport.sessionId, transport);
+    lastActivity.set(transport.sessionId, Date.now());
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+      lastActivity.delete(transport.sessionId);
+      opened.release();
+    });
+    await createServer(opened.account, options.serverOptions).connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId');
+    const transport = sessionId ? sseTransports.get(sessionId) : undefined;
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    lastActivity.set(sessionId!, Date.now());
+    const body = await readJsonBody(req);
+    await transport.handlePostMessage(req, res, body);
+  }
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, seen] of lastActivity) {
+      if (seen > cutoff) continue;
+      const transport = streamableTransports.get(id) ?? sseTransports.get(id);
+      lastActivity.delete(id);
+      if (!transport) continue;
+      process.stderr.write(`[probeops] HTTP session ${id} idle for ${SESSION_IDLE_MS / 60_000} min, closing\n`);
+      transport.close().catch((err) => {
+        process.stderr.write(`[probeops] Failed to close HTTP session ${id}: ${err instanceof Error ? err.message : err}\n`);
+      });
+    }
+  }, SESSION_SWEEP_MS);
+  sweep.unref();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: streamableTransports.size + sseTransports.size }));
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    try {
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseStream(req, res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJsonRpcError(res, 404, -32000, 'Not found');
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      process.stderr.write(`[probeops] HTTP request failed: ${msg}\n`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, err instanceof SyntaxError ? 400 : 500, err instanceof SyntaxError ? -32700 : -32603, err instanceof SyntaxError ? 'Parse error' : 'Internal server error');
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      process.stderr.write(`[probeops] MCP server listening on http://${options.host}:${options.port}/mcp (SSE fallback: /sse)\n`);
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,362 @@
+import { createHash } from 'node:crypto';
+import {
+  FetchFn,
+  PROBE_REGIONS,
+  ProbeRegion,
+  CertificateInfo,
+  V1RunResponse,
+  GeoProxyResponse,
+  QuotaResponse,
+  RegionsResponse,
+  RegionResult,
+} from './types.js';
+
+// Standard-tier limits, so multi-run tools can be tried without hitting them
+const LIMITS = { minute: 30, hour: 500, day: 1000, month: 20_000 };
+const PROXY_HOURS_PER_DAY = 5;
+const MAX_ACTIVE_TOKENS = 3;
+const MAX_TOKEN_TTL_HOURS = 4;
+// Rolling windows for the mock quota
+const WINDOW_MS = { minute: 60_000, hour: 3_600_000, day: 86_400_000, month: 30 * 86_400_000 };
+
+// Typical round trip from each probe region to a nearby CDN edge
+const REGION_LATENCY_MS: Record<ProbeRegion, number> = {
+  'us-east': 12,
+  'ca-central': 24,
+  'us-west': 68,
+  'eu-central': 94,
+  'ap-south': 186,
+  'ap-southeast': 208,
+};
+
+const REGION_INFO: Record<ProbeRegion, { location: string; country: string; flag_emoji: string }> = {
+  'eu-central': { location: 'Helsinki', country: 'Finland', flag_emoji: '🇫🇮' },
+  'us-east': { location: 'Ashburn, Virginia', country: 'United States', flag_emoji: '🇺🇸' },
+  'ap-south': { location: 'Mumbai', country: 'India', flag_emoji: '🇮🇳' },
+  'us-west': { location: 'Boardman, Oregon', country: 'United States', flag_emoji: '🇺🇸' },
+  'ca-central': { location: 'Montreal', country: 'Canada', flag_emoji: '🇨🇦' },
+  'ap-southeast': { location: 'Sydney', country: 'Australia', flag_emoji: '🇦🇺' },
+};
+
+/** Deterministic pseudo-random integer in [min, max] for the given inputs */
+function pick(min: number, max: number, ...seed: string[]): number {
+  const n = createHash('sha256').update(seed.join('\0')).digest().readUInt32BE(0);
+  return min + (n % (max - min + 1));
+}
+
+function isoDaysFromNow(days: number): string {
+  return new Date(Date.now() + days * 86_400_000).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function bareHost(target: string): string {
+  return target.replace(/^[a-z]+:\/\//i, '').replace(/[/:?#].*$/, '');
+}
+
+// ── Tool Output ─────────────────────────────────────────────
+
+function mockCertificate(domain: string): CertificateInfo {
+  const daysLeft = pick(20, 85, 'cert', domain);
+  return {
+    is_valid: true,
+    is_expired: false,
+    days_until_expiry: daysLeft,
+    valid_from: isoDaysFromNow(daysLeft - 90),
+    valid_until: isoDaysFromNow(daysLeft),
+    subject: { common_name: domain },
+    issuer: { common_name: 'R11', organization: "Let's Encrypt", country: 'US' },
+    sans: [domain, `www.${domain}`],
+    sans_truncated: false,
+    hostname_match: true,
+    cipher: { name: 'TLS_AES_256_GCM_SHA384', version: 'TLSv1.3', bits: 256 },
+    serial_number: createHash('sha256').update(`serial ${domain}`).digest('hex').slice(0, 32).toUpperCase(),
+    fingerprint: createHash('sha256').update(`fp ${domain}`).digest('hex').slice(0, 64).toUpperCase().match(/../g)!.join(':'),
+  };
+}
+
+function dnsAnswer(name: string, recordType: string): string {
+  const base = name.replace(/^(_dmarc|[^.]+\._domainkey|_spf)\./, '');
+  if (name.startsWith('_dmarc.')) return `"v=DMARC1; p=quarantine; rua=mailto:dmarc@${base}"`;
+  if (name.includes('._domainkey.')) return '"v=DKIM1; k=rsa; " "p=MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAmock"';
+  // The include target ends the SPF chain, so audits see a normal record
+  if (name.startsWith('_spf.') && recordType === 'TXT') return '"v=spf1 ip4:203.0.113.0/24 -all"';
+  switch (recordType) {
+    case 'AAAA': return `2606:4700:${pick(1, 0xfff, 'v6', name).toString(16)}::${pick(1, 0xff, 'v6b', name).toString(16)}`;
+    case 'MX': return `10 mx1.${base}.\n20 mx2.${base}.`;
+    case 'TXT': return `"v=spf1 include:_spf.${base} ~all"`;
+    case 'NS': return `ns1.${base}.\nns2.${base}.`;
+    case 'CNAME': return `${base}.cdn.example.net.`;
+    case 'CAA': return '0 issue "letsencrypt.org"';
+    case 'SOA': return `ns1.${base}. hostmaster.${base}. 2026010101 7200 3600 1209600 3600`;
+    case 'PTR': return `host-${name.replace(/[.:]/g, '-')}.example.net.`;
+    default: return `203.0.113.${pick(1, 254, 'a', name)}`;
+  }
+}
+
+function pingOutput(host: string, rtt: number): string {
+  const times = [0, 1, 2].map((i) => (rtt + pick(0, 90, 'ping', host, String(rtt), String(i)) / 100).toFixed(2));
+  const sorted = [...times].map(Number).sort((a, b) => a - b);
+  const avg = (sorted.reduce((a, b) => a + b, 0) / sorted.length).toFixed(3);
+  return [
+    `PING ${host} (203.0.113.10) 56(84) bytes of data.`,
+    ...times.map((t, i) => `64 bytes from 203.0.113.10: icmp_seq=${i + 1} ttl=56 time=${t} ms`),
+    '',
+    `--- ${host} ping statistics ---`,
+    '3 packets transmitted, 3 received, 0% packet loss, time 2003ms',
+    `rtt min/avg/max/mdev = ${sorted[0].toFixed(3)}/${avg}/${sorted[2].toFixed(3)}/0.120 ms`,
+  ].join('\n');
+}
+
+function tracerouteOutput(host: string, region: ProbeRegion, rtt: number): string {
+  const hops = [
+    ` 1  10.0.0.1 (10.0.0.1)  0.412 ms  0.388 ms  0.401 ms`,
+    ` 2  ${region}.edge.example.net (198.51.100.1)  1.203 ms  1.187 ms  1.254 ms`,
+    ` 3  * * *`,
+    ` 4  core1.transit.example.net (198.51.100.77)  ${(rtt * 0.8).toFixed(3)} ms  ${(rtt * 0.82).toFixed(3)} ms  ${(rtt * 0.79).toFixed(3)} ms`,
+    ` 5  ${host} (203.0.113.10)  ${rtt.toFixed(3)} ms  ${(rtt + 0.2).toFixed(3)} ms  ${(rtt + 0.1).toFixed(3)} ms`,
+  ];
+  return [`traceroute to ${host} (203.0.113.10), 30 hops max, 60 byte packets`, ...hops].join('\n');
+}
+
+function nmapOutput(ports: string): string {
+  const services: Record<string, string> = { '22': 'ssh', '25': 'smtp', '53': 'domain', '80': 'http', '443': 'https', '3306': 'mysql', '5432': 'postgresql' };
+  const list = ports.split(',').map((p) => p.trim()).filter((p) => /^\d+$/.test(p));
+  const rows = list.map((p) => {
+    const state = ['80', '443'].includes(p) ? 'open' : p === '22' ? 'filtered' : 'closed';
+    return `${`${p}/tcp`.padEnd(9)}${state.padEnd(9)}${services[p] ?? 'unknown'}`;
+  });
+  return ['PORT     STATE    SERVICE', ...rows].join('\n');
+}
+
+function whoisOutput(domain: string): string {
+  return [
+    `Domain Name: ${domain.toUpperCase()}`,
+    'Registrar: Example Registrar, Inc.',
+    `Creation Date: ${isoDaysFromNow(-pick(400, 6000, 'created', domain))}`,
+    `Updated Date: ${isoDaysFromNow(-pick(10, 300, 'updated', domain))}`,
+    `Registry Expiry Date: ${isoDaysFromNow(pick(60, 700, 'expiry', domain))}`,
+    'Domain Status: clientTransferProhibited https://icann.org/epp#clientTransferProhibited',
+    `Name Server: NS1.${domain.toUpperCase()}`,
+    `Name Server: NS2.${domain.toUpperCase()}`,
+    'DNSSEC: unsigned',
+  ].join('\n');
+}
+
+function toolOutput(tool: string, target: string, params: Record<string, unknown>, region: ProbeRegion, rtt: number): string {
+  const host = bareHost(target);
+  switch (tool) {
+    case 'ssl_check': return `Certificate for ${host} is valid (TLSv1.3)`;
+    case 'dns_lookup': return dnsAnswer(target, String(params.record_type || 'A'));
+    case 'is_it_down': return `HTTP 200 OK in ${Math.round(rtt * 3)}ms`;
+    case 'latency_test': return `Average latency ${rtt.toFixed(1)}ms`;
+    case 'ping': return pingOutput(host, rtt);
+    case 'traceroute': return tracerouteOutput(host, region, rtt);
+    case 'port_check': return `Port ${params.port ?? 443} is open`;
+    case 'tcping': return `Connected to ${host}:${params.port ?? 443} in ${rtt.toFixed(2)}ms`;
+    case 'nmap': return nmapOutput(String(params.ports || '22,80,443'));
+    case 'whois': return whoisOutput(host);
+    case 'keyword_check': return `Keyword "${params.keyword ?? ''}" found (1 occurrence)`;
+    case 'websocket_check': return 'WebSocket handshake succeeded (101 Switching Protocols)';
+    case 'banner_grab': return Number(params.port) === 22 ? 'SSH-2.0-OpenSSH_9.6p1 Ubuntu-3ubuntu13' : 'HTTP/1.1 400 Bad Request\r\nServer: nginx';
+    case 'api_health': return `HTTP 200 OK, application/json, ${Math.round(rtt * 3)}ms`;
+    default: return 'ok';
+  }
+}
+
+// ── Mock Backend ────────────────────────────────────────────
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : 'Not Found',
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+/**
+ * A `fetch` replacement that answers every API call with synthetic but
+ * plausible data: results for any tool and region, quota that counts down
+ * as runs are made, and proxy tokens (whose proxies do not exist).
+ * Answers and latencies are stable per tool, target and region.
+ */
+export function createMockFetch(): FetchFn {
+  let runTimes: number[] = [];
+  let proxyHoursUsed = 0;
+  let tokenCount = 0;
+  const tokens = new Map<string, { data: GeoProxyResponse; label: string | null; created_at: string; revoked: boolean }>();
+  const isActive = (t: { data: GeoProxyResponse; revoked: boolean }) => !t.revoked && Date.parse(t.data.expires_at) > Date.now();
+
+  const usage = () => {
+    const now = Date.now();
+    runTimes = runTimes.filter((t) => now - t < WINDOW_MS.month);
+    const count = (ms: number) => runTimes.filter((t) => now - t < ms).length;
+    return { minute: count(WINDOW_MS.minute), hour: count(WINDOW_MS.hour), day: count(WINDOW_MS.day), month: runTimes.length };
+  };
+
+  const remaining = () => {
+    const used = usage();
+    return {
+      minute: Math.max(0, LIMITS.minute - used.minute),
+      hour: Math.max(0, LIMITS.hour - used.hour),
+      day: Math.max(0, LIMITS.day - used.day),
+      month: Math.max(0, LIMITS.month - used.month),
+    };
+  };
+
+  const dailyUsage = () => {
+    const midnight = new Date();
+    midnight.setUTCHours(24, 0, 0, 0);
+    return { consumed: proxyHoursUsed, quota: PROXY_HOURS_PER_DAY, resets_at: midnight.toISOString() };
+  };
+
+  function run(body: { tool: string; target: string; params?: Record<string, unknown>; regions?: ProbeRegion[] }): V1RunResponse {
+    const { tool, target } = body;
+    const params = body.params ?? {};
+    const regions = body.regions?.length ? body.regions : [...PROBE_REGIONS];
+    runTimes.push(Date.now());
+
+    const latencies = regions.map((r) => REGION_LATENCY_MS[r] + pick(0, 400, 'rtt', tool, target, r) / 100);
+    const regionsChecked: RegionResult[] = regions.map((region, i) => ({
+      region,
+      location: REGION_INFO[region]?.location ?? region,
+      flag_emoji: REGION_INFO[region]?.flag_emoji,
+      success: true,
+      response_time_ms: Math.round(latencies[i]),
+      error: null,
+      result: { output: toolOutput(tool, target, params, region, latencies[i]) },
+    }));
+
+    const data: V1RunResponse = {
+      tool,
+      target,
+      regions_checked: regionsChecked,
+      regions_locked: [],
+      is_authenticated: true,
+      execution_time_ms: Math.round(Math.max(...latencies) * 4 + 150),
+      checked_at: new Date().toISOString(),
+      quota: { tier: 'standard', limits: { ...LIMITS }, usage: usage(), available: remaining() },
+    };
+
+    if (tool === 'ssl_check') {
+      const cert = mockCertificate(bareHost(target));
+      Object.assign(data, {
+        domain: target,
+        certificate: cert,
+        region_certificates: regions.map((region) => ({ region, certificate: cert })),
+        certificates_consistent: true,
+        inconsistency_details: null,
+      });
+    } else if (tool === 'dns_lookup') {
+      Object.assign(data, { domain: target, record_type: String(params.record_type || 'A') });
+    } else if (tool === 'is_it_down' || tool === 'api_health' || tool === 'keyword_check') {
+      Object.assign(data, { url: target, global_status: 'up' });
+    } else if (tool === 'latency_test') {
+      Object.assign(data, {
+        average_latency_ms: latencies.reduce((a, b) => a + b, 0) / latencies.length,
+        min_latency_ms: Math.min(...latencies),
+        max_latency_ms: Math.max(...latencies),
+      });
+    } else if (tool === 'port_check' || tool === 'tcping' || tool === 'banner_grab') {
+      Object.assign(data, { port: Number(params.port ?? 443) });
+    }
+    return data;
+  }
+
+  function newToken(region: string, hours: number): GeoProxyResponse {
+    proxyHoursUsed += hours;
+    tokenCount++;
+    return {
+      token_id: `mock-token-${tokenCount}`,
+      jwt_token: 'mock',
+      region,
+      probe_node_id: null,
+      probe_node_name: null,
+      expires_at: new Date(Date.now() + hours * 3_600_000).toISOString(),
+      max_requests_per_hour: 1000,
+      allowed_domains: ['*'],
+      allowed_regions: ['*'],
+      tier_limits: { session_duration_minutes: 60, data_transfer_mb: 1024, concurrent_tabs: 3, requests_per_hour: 1000, max_active_tokens: MAX_ACTIVE_TOKENS, max_token_ttl_hours: MAX_TOKEN_TTL_HOURS },
+      daily_usage: dailyUsage(),
+      concurrent_tabs: 3,
+      rate_limit_per_hour: 1000,
+      forward_proxy_daily_bandwidth_mb: null,
+      max_tokens: MAX_ACTIVE_TOKENS,
+      abuse_warning: null,
+      // .invalid never resolves, so a browser pointed here fails fast
+      proxy_url: 'https://mock-proxy.invalid:443',
+      proxy_nodes: Object.fromEntries(PROBE_REGIONS.map((r) => [r, `https://${r}.mock-proxy.invalid:443`])),
+    };
+  }
+
+  return async (url, init) => {
+    const { pathname } = new URL(url);
+    const method = (init.method || 'GET').toUpperCase();
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) : {};
+
+    if (method === 'POST' && pathname === '/api/v1/run') return json(run(body));
+
+    if (method === 'GET' && pathname === '/api/diagnostics/quota-status') {
+      const quota: QuotaResponse = { can_execute: remaining().minute > 0, tier: 'standard', limits: { ...LIMITS }, usage: usage(), remaining: remaining() };
+      return json(quota);
+    }
+
+    if (method === 'GET' && pathname === '/api/tools/regions') {
+      const regions: RegionsResponse = {
+        regions: PROBE_REGIONS.map((region) => ({ region, ...REGION_INFO[region] })),
+        total: PROBE_REGIONS.length,
+      };
+      return json(regions);
+    }
+
+    if (method === 'GET' && pathname === '/api/forward-proxy/tokens/daily-usage') return json(dailyUsage());
+
+    if (method === 'GET' && pathname === '/api/forward-proxy/tokens') {
+      return json({
+        tokens: [...tokens.values()].map((t) => ({
+          token_id: t.data.token_id,
+          label: t.label,
+          region: t.data.region,
+          created_at: t.created_at,
+          expires_at: t.data.expires_at,
+          is_active: isActive(t),
+          extensions_count: t.data.extensions_count ?? 0,
+        })),
+      });
+    }
+
+    if (method === 'POST' && pathname === '/api/forward-proxy/tokens/generate') {
+      const hours = Number(body.expires_in_hours || 1);
+      if (hours > MAX_TOKEN_TTL_HOURS) return json({ detail: `expires_in_hours exceeds your tier's maximum of ${MAX_TOKEN_TTL_HOURS}` }, 400);
+      if ([...tokens.values()].filter(isActive).length >= MAX_ACTIVE_TOKENS) {
+        return json({ detail: `Active token limit reached (${MAX_ACTIVE_TOKENS}). Revoke a token or wait for one to expire.` }, 400);
+      }
+      const data = newToken(String(body.region || 'us-east'), hours);
+      tokens.set(data.token_id, { data, label: body.label ? String(body.label) : null, created_at: new Date().toISOString(), revoked: false });
+      return json(data);
+    }
+
+    const extend = /^\/api\/forward-proxy\/tokens\/([^/]+)\/extend$/.exec(pathname);
+    const existing = extend ? tokens.get(extend[1]) : undefined;
+    if (method === 'POST' && extend) {
+      if (!existing || !isActive(existing)) return json({ detail: 'Token not found' }, 404);
+      proxyHoursUsed++;
+      existing.data = {
+        ...existing.data,
+        expires_at: new Date(Date.parse(existing.data.expires_at) + 3_600_000).toISOString(),
+        daily_usage: dailyUsage(),
+        extended: true,
+        extensions_count: (existing.data.extensions_count ?? 0) + 1,
+      };
+      return json(existing.data);
+    }
+
+    const revoke = /^\/api\/forward-proxy\/tokens\/([^/]+)$/.exec(pathname);
+    if (method === 'DELETE' && revoke) {
+      const token = tokens.get(decodeURIComponent(revoke[1]));
+      if (!token) return json({ detail: 'Token not found' }, 404);
+      token.revoked = true;
+      return new Response(null, { status: 204 });
+    }
+
+    return json({ detail: `Mock backend has no handler for ${method} ${pathname}` }, 404);
+  };
+}
@@ -0,0 +1,260 @@
+import { randomUUID } from 'node:crypto';
+import type { ProbeOpsAccount } from './account.js';
+import { ProbeOpsError, MonitorSpec, MonitorInfo, MonitorState, MonitorEvent, V1RunResponse } from './types.js';
+import { parseDnsAnswers, parseNmapPorts } from './parsers.js';
+
+const MAX_MONITORS = 20;
+// Daily diagnostic runs left untouched by monitors so interactive tools keep working
+const DAILY_QUOTA_RESERVE = 5;
+
+// ── State Extraction ────────────────────────────────────────
+
+/**
+ * Reduce a run to the fields a monitor watches: overall status, the served
+ * certificate, per-region DNS answers and per-region port states.
+ */
+export function extractMonitorState(data: V1RunResponse): MonitorState {
+  const state: MonitorState = {};
+  if (data.global_status !== undefined) state.global_status = data.global_status;
+
+  if (data.tool === 'ssl_check') {
+    state.certificate_fingerprint = data.certificate?.fingerprint ?? null;
+  }
+
+  if (data.tool === 'dns_lookup') {
+    const recordType = data.record_type || 'A';
+    state.dns_answers = {};
+    for (const r of data.regions_checked) {
+      if (r.success) state.dns_answers[r.region] = parseDnsAnswers(r.result?.output || '', recordType);
+    }
+  }
+
+  if (data.tool === 'nmap') {
+    state.port_states = {};
+    for (const r of data.regions_checked) {
+      if (!r.success) continue;
+      for (const p of parseNmapPorts(r.result?.output || '')) {
+        state.port_states[`${r.region} ${p.port}/${p.protocol}`] = p.state;
+      }
+    }
+  }
+
+  return state;
+}
+
+function shortFingerprint(fp: string | null | undefined): string {
+  if (!fp) return 'none';
+  return fp.length > 23 ? `${fp.slice(0, 23)}…` : fp;
+}
+
+/**
+ * Describe what changed between two checks. Regions that failed in either
+ * run are left out so a flaky probe does not read as a DNS or port change.
+ */
+export function diffMonitorState(prev: MonitorState, next: MonitorState): string[] {
+  const changes: string[] = [];
+
+  if (prev.global_status !== undefined && next.global_status !== undefined && prev.global_status !== next.global_status) {
+    changes.push(`status ${prev.global_status} → ${next.global_status}`);
+  }
+
+  if (prev.certificate_fingerprint !== undefined && next.certificate_fingerprint !== undefined
+    && prev.certificate_fingerprint !== next.certificate_fingerprint) {
+    changes.push(`certificate fingerprint ${shortFingerprint(prev.certificate_fingerprint)} → ${shortFingerprint(next.certificate_fingerprint)}`);
+  }
+
+  if (prev.dns_answers && next.dns_answers) {
+    for (const [region, answers] of Object.entries(next.dns_answers)) {
+      const before = prev.dns_answers[region];
+      if (!before || JSON.stringify(before) === JSON.stringify(answers)) continue;
+      changes.push(`${region} DNS ${before.join(', ') || '(none)'} → ${answers.join(', ') || '(none)'}`);
+    }
+  }
+
+  if (prev.port_states && next.port_states) {
+    for (const [key, portState] of Object.entries(next.port_states)) {
+      const before = prev.port_states[key];
+      if (before && before !== portState) changes.push(`${key} ${before} → ${portState}`);
+    }
+  }
+
+  return changes;
+}
+
+function errorMessage(err: unknown): string {
+  if (err instanceof ProbeOpsError) return `${err.statusCode}: ${err.detail || err.message}`;
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ── Monitor Manager ─────────────────────────────────────────
+
+interface ActiveMonitor {
+  info: MonitorInfo;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * In-process scheduler for recurring checks. Lives on the account, so every
+ * session using the same API key sees (and is notified about) the same
+ * monitors. Monitors stop when the process exits.
+ */
+export class MonitorManager {
+  private readonly monitors = new Map<string, ActiveMonitor>();
+  private readonly listeners = new Set<(event: MonitorEvent) => void>();
+
+  constructor(private readonly account: ProbeOpsAccount) {}
+
+  /**
+   * Start a monitor. The first check runs immediately to record a baseline;
+   * a request the API rejects outright (bad target, plan limits) is not kept.
+   */
+  async create(spec: MonitorSpec): Promise<MonitorInfo> {
+    if (this.monitors.size >= MAX_MONITORS) {
+      throw new Error(`Monitor limit reached (${MAX_MONITORS}). Delete an existing monitor first.`);
+    }
+    const monitor: ActiveMonitor = {
+      info: {
+        ...spec,
+        id: `mon-${randomUUID().slice(0, 8)}`,
+        created_at: new Date().toISOString(),
+        last_run_at: null,
+        next_run_at: null,
+        runs: 0,
+        skipped_runs: 0,
+        last_error: null,
+        last_state: null,
+        last_change_at: null,
+        last_changes: [],
+      },
+      timer: null,
+    };
+    this.monitors.set(monitor.info.id, monitor);
+
+    const err = await this.check(monitor);
+    if (err instanceof ProbeOpsError && err.statusCode >= 400 && err.statusCode < 500 && err.statusCode !== 429) {
+      this.monitors.delete(monitor.info.id);
+      throw err;
+    }
+    this.schedule(monitor);
+    process.stderr.write(`[probeops] Monitor ${monitor.info.id} created: ${spec.tool} ${spec.target} every ${spec.interval_minutes} min\n`);
+    return { ...monitor.info };
+  }
+
+  list(): MonitorInfo[] {
+    return [...this.monitors.values()].map((m) => ({ ...m.info }));
+  }
+
+  get(id: string): MonitorInfo | null {
+    const monitor = this.monitors.get(id);
+    return monitor ? { ...monitor.info } : null;
+  }
+
+  delete(id: string): boolean {
+    const monitor = this.monitors.get(id);
+    if (!monitor) return false;
+    if (monitor.timer) clearTimeout(monitor.timer);
+    this.monitors.delete(id);
+    process.stderr.write(`[probeops] Monitor ${id} deleted\n`);
+    return true;
+  }
+
+  /**
+   * Register a listener for state changes, failures and skipped runs.
+   * Returns a function that removes it.
+   */
+  subscribe(listener: (event: MonitorEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private emit(monitor: ActiveMonitor, level: MonitorEvent['level'], detail: string): void {
+    const name = monitor.info.label || monitor.info.id;
+    const message = `Monitor ${name} (${monitor.info.tool} ${monitor.info.target}): ${detail}`;
+    process.stderr.write(`[probeops] ${message}\n`);
+    for (const listener of this.listeners) {
+      try {
+        listener({ monitor: { ...monitor.info }, level, message });
+      } catch { /* a broken session must not stop the others */ }
+    }
+  }
+
+  private schedule(monitor: ActiveMonitor): void {
+    const delayMs = monitor.info.interval_minutes * 60_000;
+    monitor.info.next_run_at = new Date(Date.now() + delayMs).toISOString();
+    monitor.timer = setTimeout(async () => {
+      monitor.timer = null;
+      await this.check(monitor);
+      // Deleted while the check was in flight
+      if (this.monitors.has(monitor.info.id)) this.schedule(monitor);
+    }, delayMs);
+    // Monitors must not keep the process alive on their own
+    monitor.timer.unref();
+  }
+
+  /**
+   * Reason to skip a run when the cached diagnostic quota is exhausted for
+   * any window, or null when the run may go ahead.
+   */
+  private async quotaBlock(): Promise<string | null> {
+    try {
+      await this.account.refreshQuotaCache();
+    } catch { /* use whatever is cached */ }
+    const d = this.account.quotaCache.diagnostic;
+    if (!d) return null;
+    if (d.remaining.minute <= 0) return 'per-minute diagnostic quota exhausted';
+    if (d.remaining.hour <= 0) return 'hourly diagnostic quota exhausted';
+    if (d.remaining.day <= DAILY_QUOTA_RESERVE) {
+      return `daily diagnostic quota nearly exhausted (${d.remaining.day} left, ${DAILY_QUOTA_RESERVE} reserved for interactive use)`;
+    }
+    return null;
+  }
+
+  /**
+   * Run one check and notify listeners about changes. Returns the error when
+   * the run failed so `create` can reject an invalid monitor.
+   */
+  private async check(monitor: ActiveMonitor): Promise<unknown> {
+    const info = monitor.info;
+
+    const blocked = await this.quotaBlock();
+    if (blocked) {
+      info.skipped_runs++;
+      const message = `Skipped: ${blocked}`;
+      if (info.last_error !== message) this.emit(monitor, 'warning', message);
+      info.last_error = message;
+      return null;
+    }
+
+    let data: V1RunResponse;
+    try {
+      data = await this.account.client.run(info.tool, info.target, info.params ?? {}, info.regions);
+      this.account.updateQuotaFromV1(data);
+    } catch (err) {
+      const message = errorMessage(err);
+      info.last_run_at = new Date().toISOString();
+      // Only notify on the first failure of a streak
+      if (info.last_error !== message) this.emit(monitor, 'error', `check failed: ${message}`);
+      info.last_error = message;
+      return err;
+    }
+
+    info.runs++;
+    info.last_run_at = data.checked_at || new Date().toISOString();
+    if (info.last_error) {
+      this.emit(monitor, 'info', 'checks succeeding again');
+      info.last_error = null;
+    }
+
+    const state = extractMonitorState(data);
+    if (info.last_state) {
+      const changes = diffMonitorState(info.last_state, state);
+      if (changes.length > 0) {
+        info.last_change_at = info.last_run_at;
+        info.last_changes = changes;
+        this.emit(monitor, 'warning', changes.join('; '));
+      }
+    }
+    info.last_state = state;
+    return null;
+  }
+}
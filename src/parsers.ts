@@ -0,0 +1,502 @@
+import {
+  V1RunResponse,
+  TracerouteHop,
+  TracerouteTrace,
+  PingStats,
+  PingSummary,
+  NmapPort,
+  PortMatrix,
+  PortMatrixRow,
+  WhoisRecord,
+  WhoisAnalysis,
+  DnsAnswerGroup,
+  DnsMatchMode,
+  DnsPropagationResult,
+} from './types.js';
+
+// ── DNS Answers ─────────────────────────────────────────────
+
+// Full dig answer line: "<name> <ttl> IN <type> <rdata>"
+const DIG_ANSWER_RE = /^\S+\s+\d+\s+IN\s+[A-Z0-9]+\s+(.+)$/i;
+
+/**
+ * Normalise a single DNS answer so equivalent answers compare equal:
+ * collapses whitespace, drops the trailing root dot from names, and
+ * lowercases everything except TXT data (which is case-sensitive).
+ */
+export function normalizeDnsAnswer(answer: string, recordType: string): string {
+  let value = answer.trim().replace(/\s+/g, ' ');
+  if (recordType.toUpperCase() === 'TXT') {
+    // Join multi-string TXT records ("part1" "part2") into one value
+    const parts = value.match(/"((?:[^"\\]|\\.)*)"/g);
+    if (parts) value = parts.map((p) => p.slice(1, -1)).join('');
+    return value;
+  }
+  return value
+    .split(' ')
+    .map((token) => token.replace(/\.$/, ''))
+    .join(' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Extract the answer set from a region's raw lookup output. Accepts both
+ * `dig +short` style output (one answer per line) and full dig output with
+ * an ANSWER SECTION. Returns a sorted, de-duplicated list.
+ */
+export function parseDnsAnswers(output: string, recordType: string): string[] {
+  const answers = new Set<string>();
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) continue;
+    const dig = DIG_ANSWER_RE.exec(line);
+    const value = normalizeDnsAnswer(dig ? dig[1] : line, recordType);
+    if (value) answers.add(value);
+  }
+  return [...answers].sort();
+}
+
+function answersMatch(answers: string[], expected: string[], mode: DnsMatchMode): boolean {
+  if (mode === 'contains') return expected.every((e) => answers.includes(e));
+  return answers.length === expected.length && answers.every((a, i) => a === expected[i]);
+}
+
+/**
+ * Group regions by identical answer sets and compare them with an optional
+ * expected value. The largest group is treated as the consensus; regions
+ * outside it (or not matching `expected`, when given) are mismatches.
+ * When no region answered at all the result is never reported as consistent.
+ */
+export function analyzeDnsPropagation(
+  data: V1RunResponse,
+  expected: string[] | null,
+  matchMode: DnsMatchMode = 'exact',
+): DnsPropagationResult {
+  const recordType = data.record_type || 'A';
+  const expectedSet = expected ? [...new Set(expected.map((e) => normalizeDnsAnswer(e, recordType)).filter(Boolean))].sort() : null;
+
+  const groupsByKey = new Map<string, DnsAnswerGroup>();
+  const failed: Array<{ region: string; error: string }> = [];
+
+  for (const r of data.regions_checked) {
+    if (!r.success) {
+      failed.push({ region: r.region, error: r.error || 'No response' });
+      continue;
+    }
+    const answers = parseDnsAnswers(r.result?.output || '', recordType);
+    const key = JSON.stringify(answers);
+    const group = groupsByKey.get(key);
+    if (group) {
+      group.regions.push(r.region);
+    } else {
+      groupsByKey.set(key, { answers, regions: [r.region] });
+    }
+  }
+
+  const groups = [...groupsByKey.values()].sort((a, b) => b.regions.length - a.regions.length);
+  if (expectedSet) {
+    for (const g of groups) g.matches_expected = answersMatch(g.answers, expectedSet, matchMode);
+  }
+
+  const mismatched = expectedSet
+    ? groups.filter((g) => !g.matches_expected).flatMap((g) => g.regions)
+    : groups.slice(1).flatMap((g) => g.regions);
+
+  return {
+    domain: data.domain ?? data.target,
+    record_type: recordType,
+    expected: expectedSet,
+    match_mode: matchMode,
+    consistent: groups.length === 1,
+    propagated: expectedSet ? groups.length > 0 && groups.every((g) => g.matches_expected) : null,
+    groups,
+    mismatched_regions: mismatched,
+    failed_regions: failed,
+    locked_regions: data.regions_locked.map((r) => r.region),
+    execution_time_ms: data.execution_time_ms,
+    checked_at: data.checked_at,
+  };
+}
+
+// ── Port States ─────────────────────────────────────────────
+
+// nmap port table row: "443/tcp  open  https"
+const NMAP_PORT_RE = /^(\d+)\/(tcp|udp|sctp)\s+(\S+)(?:\s+(.+))?$/i;
+
+/**
+ * Extract the port table from nmap output, ignoring timing and host lines
+ * that change between runs.
+ */
+export function parseNmapPorts(output: string): NmapPort[] {
+  const ports: NmapPort[] = [];
+  for (const rawLine of output.split('\n')) {
+    const m = NMAP_PORT_RE.exec(rawLine.trim());
+    if (!m) continue;
+    ports.push({
+      port: Number(m[1]),
+      protocol: m[2].toLowerCase(),
+      state: m[3].toLowerCase(),
+      service: m[4]?.trim() || null,
+    });
+  }
+  return ports;
+}
+
+// "Not shown: 997 filtered tcp ports (no-response)" / "All 1000 scanned ports on x are closed"
+const NMAP_NOT_SHOWN_RE = /Not shown:\s+\d+\s+(\S+)/i;
+const NMAP_ALL_PORTS_RE = /All\s+\d+\s+scanned ports on .+ are (?:in ignored states|(\S+))/i;
+
+/**
+ * Build a ports × regions matrix from an nmap run. Ports a region did not
+ * list take that region's "Not shown" state when nmap printed one. A port
+ * is flagged when it is open from some regions but not from others, which
+ * usually points to a geo-firewall or security-group rule.
+ */
+export function buildPortMatrix(data: V1RunResponse): PortMatrix {
+  const regions: string[] = [];
+  const failed: PortMatrix['failed_regions'] = [];
+  const byRegion = new Map<string, { ports: NmapPort[]; defaultState: string | null }>();
+
+  for (const r of data.regions_checked) {
+    if (!r.success) {
+      failed.push({ region: r.region, error: r.error || 'No response' });
+      continue;
+    }
+    const output = r.result?.output || '';
+    const ports = parseNmapPorts(output);
+    const hidden = NMAP_NOT_SHOWN_RE.exec(output) ?? NMAP_ALL_PORTS_RE.exec(output);
+    if (ports.length === 0 && !hidden) {
+      failed.push({ region: r.region, error: 'No port table in nmap output' });
+      continue;
+    }
+    regions.push(r.region);
+    byRegion.set(r.region, { ports, defaultState: hidden?.[1]?.toLowerCase() ?? null });
+  }
+
+  const rowsByKey = new Map<string, PortMatrixRow>();
+  for (const [region, { ports }] of byRegion) {
+    for (const p of ports) {
+      const key = `${p.port}/${p.protocol}`;
+      let row = rowsByKey.get(key);
+      if (!row) {
+        row = { port: p.port, protocol: p.protocol, service: p.service, states: {}, inconsistent: false };
+        rowsByKey.set(key, row);
+      }
+      row.service ??= p.service;
+      row.states[region] = p.state;
+    }
+  }
+
+  const rows = [...rowsByKey.values()].sort((a, b) => a.port - b.port || a.protocol.localeCompare(b.protocol));
+  for (const row of rows) {
+    for (const region of regions) {
+      row.states[region] ??= byRegion.get(region)!.defaultState ?? 'unknown';
+    }
+    const states = Object.values(row.states);
+    row.inconsistent = states.includes('open') && states.some((st) => st !== 'open');
+  }
+
+  return {
+    regions,
+    rows,
+    inconsistent_ports: rows.filter((r) => r.inconsistent).map((r) => `${r.port}/${r.protocol}`),
+    failed_regions: failed,
+  };
+}
+
+// ── Traceroute ──────────────────────────────────────────────
+
+// "traceroute to example.com (93.184.216.34), 30 hops max, 60 byte packets"
+const TRACE_HEADER_RE = /^traceroute to\s+(\S+)(?:\s+\(([^)]+)\))?/i;
+const TRACE_HOP_RE = /^(\d+)\s+(.*)$/;
+const IP_RE = /^(?:\d{1,3}(?:\.\d{1,3}){3}|[0-9a-f:]*:[0-9a-f:]+)$/i;
+
+function parseHopLine(hopNumber: number, rest: string): TracerouteHop {
+  const hop: TracerouteHop = { hop: hopNumber, host: null, ip: null, rtts_ms: [], timeouts: 0, avg_rtt_ms: null };
+  const tokens = rest.trim().split(/\s+/);
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === '*') {
+      hop.timeouts++;
+    } else if (/^[\d.]+$/.test(token) && tokens[i + 1] === 'ms') {
+      hop.rtts_ms.push(Number(token));
+      i++;
+    } else if (/^\d+(?:\.\d+)?ms$/.test(token)) {
+      hop.rtts_ms.push(parseFloat(token));
+    } else if (/^\(.+\)$/.test(token)) {
+      hop.ip ??= token.slice(1, -1);
+    } else if (token.startsWith('!') || token.startsWith('[')) {
+      continue; // ICMP annotations (!H, !N) and tcptraceroute markers ([open])
+    } else if (hop.host === null) {
+      // Only the first responder is kept when probes hit different routers
+      hop.host = token;
+      if (IP_RE.test(token)) hop.ip = token;
+    }
+  }
+  if (hop.rtts_ms.length > 0) {
+    hop.avg_rtt_ms = Math.round((hop.rtts_ms.reduce((a, b) => a + b, 0) / hop.rtts_ms.length) * 100) / 100;
+  }
+  return hop;
+}
+
+/**
+ * Parse traceroute/tcptraceroute output into hops and flag the usual
+ * trouble spots: the biggest latency increase between responding hops,
+ * runs of hops that never answered, and where the trace died when the
+ * destination was not reached.
+ */
+export function parseTraceroute(region: string, output: string, target: string): TracerouteTrace {
+  let destinationIp: string | null = null;
+  let destinationName = target.toLowerCase();
+  const hops: TracerouteHop[] = [];
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trim();
+    const header = TRACE_HEADER_RE.exec(line);
+    if (header) {
+      destinationName = header[1].toLowerCase();
+      destinationIp = header[2] ?? (IP_RE.test(header[1]) ? header[1] : null);
+      continue;
+    }
+    const m = TRACE_HOP_RE.exec(line);
+    if (m) hops.push(parseHopLine(Number(m[1]), m[2]));
+  }
+
+  const responding = hops.filter((h) => h.avg_rtt_ms !== null);
+  const reached = hops.some((h) => (destinationIp !== null && h.ip === destinationIp) || h.host?.toLowerCase() === destinationName);
+
+  let largestJump: TracerouteTrace['largest_jump'] = null;
+  for (let i = 1; i < responding.length; i++) {
+    const increase = responding[i].avg_rtt_ms! - responding[i - 1].avg_rtt_ms!;
+    if (increase > 0 && (!largestJump || increase > largestJump.increase_ms)) {
+      largestJump = { from_hop: responding[i - 1].hop, to_hop: responding[i].hop, increase_ms: Math.round(increase * 100) / 100 };
+    }
+  }
+
+  const timeoutRuns: TracerouteTrace['timeout_runs'] = [];
+  for (const h of hops) {
+    if (h.rtts_ms.length > 0 || h.timeouts === 0) continue;
+    const last = timeoutRuns[timeoutRuns.length - 1];
+    if (last && last.to_hop === h.hop - 1) {
+      last.to_hop = h.hop;
+    } else {
+      timeoutRuns.push({ from_hop: h.hop, to_hop: h.hop });
+    }
+  }
+
+  return {
+    region,
+    destination_ip: destinationIp,
+    reached,
+    hops,
+    largest_jump: largestJump,
+    timeout_runs: timeoutRuns,
+    last_responding_hop: reached ? null : responding[responding.length - 1] ?? null,
+  };
+}
+
+// ── Ping ────────────────────────────────────────────────────
+
+// "3 packets transmitted, 3 received, 0% packet loss" (Linux)
+// "3 packets transmitted, 3 packets received, 0.0% packet loss" (BSD/macOS)
+const PING_COUNTS_RE = /(\d+)\s+packets transmitted,\s+(\d+)\s+(?:packets\s+)?received,.*?([\d.]+)%\s+packet loss/i;
+// "rtt min/avg/max/mdev = 1.3/1.4/1.5/0.05 ms" or "round-trip min/avg/max/stddev = ..." (mdev optional on busybox)
+const PING_RTT_RE = /min\/avg\/max(?:\/(?:mdev|stddev))?\s*=\s*([\d.]+)\/([\d.]+)\/([\d.]+)(?:\/([\d.]+))?/i;
+
+/**
+ * Pull the summary block out of ping output. Returns null when the output
+ * has no "packets transmitted" line (e.g. the host did not resolve).
+ */
+export function parsePing(region: string, output: string): PingStats | null {
+  const counts = PING_COUNTS_RE.exec(output);
+  if (!counts) return null;
+  const rtt = PING_RTT_RE.exec(output);
+  return {
+    region,
+    transmitted: Number(counts[1]),
+    received: Number(counts[2]),
+    loss_percent: Number(counts[3]),
+    min_ms: rtt ? Number(rtt[1]) : null,
+    avg_ms: rtt ? Number(rtt[2]) : null,
+    max_ms: rtt ? Number(rtt[3]) : null,
+    mdev_ms: rtt?.[4] !== undefined ? Number(rtt[4]) : null,
+  };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Parse every region's ping output and aggregate across regions. Regions
+ * whose run failed or whose output has no summary are listed as failed.
+ */
+export function summarizePing(data: V1RunResponse): PingSummary {
+  const stats: PingStats[] = [];
+  const failed: PingSummary['failed_regions'] = [];
+  for (const r of data.regions_checked) {
+    const parsed = r.success ? parsePing(r.region, r.result?.output || '') : null;
+    if (parsed) {
+      stats.push(parsed);
+    } else {
+      failed.push({ region: r.region, error: r.error || 'No ping statistics in output' });
+    }
+  }
+
+  const withRtt = stats.filter((s) => s.avg_ms !== null);
+  return {
+    stats,
+    failed_regions: failed,
+    avg_loss_percent: stats.length > 0 ? round2(stats.reduce((n, s) => n + s.loss_percent, 0) / stats.length) : null,
+    min_ms: withRtt.length > 0 ? Math.min(...withRtt.map((s) => s.min_ms!)) : null,
+    avg_ms: withRtt.length > 0 ? round2(withRtt.reduce((n, s) => n + s.avg_ms!, 0) / withRtt.length) : null,
+    max_ms: withRtt.length > 0 ? Math.max(...withRtt.map((s) => s.max_ms!)) : null,
+  };
+}
+
+// ── WHOIS ───────────────────────────────────────────────────
+
+// Field names vary by registry; keys are compared lowercased
+const WHOIS_FIELDS: Record<keyof Omit<WhoisRecord, 'days_until_expiry'>, string[]> = {
+  registrar: ['registrar', 'registrar name', 'sponsoring registrar', 'registrar organization'],
+  created: ['creation date', 'created', 'created on', 'registered on', 'registration time', 'domain registration date', 'registered'],
+  updated: ['updated date', 'last updated', 'last updated on', 'last modified', 'changed', 'last-update', 'modified'],
+  expires: [
+    'registry expiry date', 'registrar registration expiration date', 'expiry date', 'expiration date',
+    'expires', 'expires on', 'expire', 'paid-till', 'expiration time', 'renewal date', 'domain expiration date',
+  ],
+  nameservers: ['name server', 'nameserver', 'nameservers', 'name servers', 'nserver', 'host name'],
+  statuses: ['domain status', 'status', 'state'],
+  dnssec: ['dnssec', 'dnssec status'],
+};
+
+const WHOIS_FIELD_BY_KEY = new Map<string, keyof typeof WHOIS_FIELDS>(
+  Object.entries(WHOIS_FIELDS).flatMap(([field, keys]) => keys.map((k) => [k, field as keyof typeof WHOIS_FIELDS])),
+);
+
+function parseWhoisDate(value: string): string | null {
+  // "2026.11.13" and "2026/11/13" are not understood by Date.parse
+  const normalized = value.trim().replace(/^(\d{4})[./](\d{2})[./](\d{2})/, '$1-$2-$3').replace(/\s*\(.*\)$/, '');
+  const ms = Date.parse(normalized);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+/**
+ * Parse raw WHOIS text into the common registration fields. Handles the
+ * ICANN "Key: value" layout as well as registries that put the value on
+ * indented lines after the key (e.g. .uk "Name servers:").
+ */
+export function parseWhois(output: string, now = Date.now()): WhoisRecord | null {
+  const values = new Map<keyof typeof WHOIS_FIELDS, string[]>();
+  let pending: keyof typeof WHOIS_FIELDS | null = null;
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('%') || line.startsWith('#') || line.startsWith('>>>')) {
+      pending = null;
+      continue;
+    }
+    const m = /^([A-Za-z][\w ./-]*?)\s*:\s*(.*)$/.exec(line);
+    const field = m ? WHOIS_FIELD_BY_KEY.get(m[1].toLowerCase()) : undefined;
+    if (m && field) {
+      if (m[2]) {
+        values.set(field, [...(values.get(field) ?? []), m[2].trim()]);
+        pending = null;
+      } else {
+        pending = field;
+      }
+    } else if (pending && /^\s/.test(rawLine)) {
+      values.set(pending, [...(values.get(pending) ?? []), line]);
+    } else {
+      pending = null;
+    }
+  }
+  if (values.size === 0) return null;
+
+  const first = (field: keyof typeof WHOIS_FIELDS) => values.get(field)?.[0] ?? null;
+  const date = (field: keyof typeof WHOIS_FIELDS) => {
+    const raw = first(field);
+    return raw ? parseWhoisDate(raw) : null;
+  };
+
+  const expires = date('expires');
+  const nameservers = new Set<string>();
+  for (const v of values.get('nameservers') ?? []) {
+    // Some registries append glue IPs after the host name
+    const host = v.split(/\s+/)[0].replace(/\.$/, '').toLowerCase();
+    if (host) nameservers.add(host);
+  }
+
+  return {
+    registrar: first('registrar')?.replace(/\s*\[Tag = .*\]$/, '') ?? null,
+    created: date('created'),
+    updated: date('updated'),
+    expires,
+    days_until_expiry: expires ? Math.floor((Date.parse(expires) - now) / 86_400_000) : null,
+    nameservers: [...nameservers].sort(),
+    // "clientTransferProhibited https://icann.org/epp#..." or "REGISTERED, DELEGATED"
+    statuses: [...new Set((values.get('statuses') ?? [])
+      .flatMap((v) => v.replace(/\s*\(?https?:\/\/\S*\)?/g, '').split(/,\s*/))
+      .map((v) => v.trim())
+      .filter(Boolean))],
+    dnssec: first('dnssec')?.toLowerCase() ?? null,
+  };
+}
+
+/**
+ * Parse the first region's WHOIS output and compare it with the NS answers
+ * probes see, warning when the domain expires soon or the nameservers
+ * registered at the registry differ from the ones served in DNS.
+ */
+export function analyzeWhois(data: V1RunResponse, nsData: V1RunResponse | null, expiryWarningDays: number): WhoisAnalysis {
+  let record: WhoisRecord | null = null;
+  let sourceRegion: string | null = null;
+  for (const r of data.regions_checked) {
+    if (!r.success) continue;
+    record = parseWhois(r.result?.output || '');
+    if (record) {
+      sourceRegion = r.region;
+      break;
+    }
+  }
+
+  const warnings: string[] = [];
+  if (!record) {
+    warnings.push('No region returned parseable WHOIS data.');
+  } else if (record.days_until_expiry === null) {
+    warnings.push('Expiry date not found in WHOIS output.');
+  } else if (record.days_until_expiry < 0) {
+    warnings.push(`Domain expired ${-record.days_until_expiry} days ago.`);
+  } else if (record.days_until_expiry <= expiryWarningDays) {
+    warnings.push(`Domain expires in ${record.days_until_expiry} days (threshold: ${expiryWarningDays}).`);
+  }
+
+  let dnsNameservers: string[] | null = null;
+  let onlyInWhois: string[] = [];
+  let onlyInDns: string[] = [];
+  if (nsData) {
+    const seen = new Set<string>();
+    for (const r of nsData.regions_checked) {
+      if (r.success) parseDnsAnswers(r.result?.output || '', 'NS').forEach((ns) => seen.add(ns));
+    }
+    dnsNameservers = [...seen].sort();
+    if (record && record.nameservers.length > 0 && dnsNameservers.length > 0) {
+      onlyInWhois = record.nameservers.filter((ns) => !seen.has(ns));
+      onlyInDns = dnsNameservers.filter((ns) => !record!.nameservers.includes(ns));
+      if (onlyInWhois.length > 0 || onlyInDns.length > 0) {
+        warnings.push('WHOIS nameservers differ from the NS records seen by probe regions.');
+      }
+    }
+  }
+
+  return {
+    record,
+    source_region: sourceRegion,
+    expiry_warning_days: expiryWarningDays,
+    dns_nameservers: dnsNameservers,
+    nameservers_only_in_whois: onlyInWhois,
+    nameservers_only_in_dns: onlyInDns,
+    warnings,
+  };
+}
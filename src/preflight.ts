@@ -0,0 +1,60 @@
+import { CachedQuota, PreflightResult, QuotaEstimate } from './types.js';
+
+// Windows that refuse a call outright; the per-minute window only throttles
+const BLOCKING_WINDOWS = ['hour', 'day', 'month'] as const;
+
+/**
+ * Compare a call's estimated cost with the cached remaining quota. Calls
+ * that certainly exceed the hour, day or month window are blocked; calls
+ * that might exceed them, or that exceed the per-minute window (which the
+ * client waits out with Retry-After), get a warning.
+ */
+export function evaluatePreflight(quota: CachedQuota, estimate: QuotaEstimate): PreflightResult {
+  const blockers: string[] = [];
+  const warnings: string[] = [];
+  const notes: string[] = [];
+
+  const min = estimate.diagnostic_runs;
+  const max = estimate.diagnostic_runs_max ?? min;
+  const d = quota.diagnostic;
+
+  if (min > 0 || estimate.recurring_runs_per_day) {
+    if (!d) {
+      notes.push('Diagnostic quota unknown; could not check before running.');
+    } else {
+      // Report only the tightest window that is hit
+      const blockedBy = BLOCKING_WINDOWS.find((w) => min > d.remaining[w]);
+      const tightBy = BLOCKING_WINDOWS.find((w) => max > d.remaining[w]);
+      if (blockedBy) {
+        blockers.push(`Needs ${min} diagnostic run${min === 1 ? '' : 's'} but only ${d.remaining[blockedBy]} remain this ${blockedBy}.`);
+      } else if (tightBy) {
+        warnings.push(`May need up to ${max} diagnostic runs; ${d.remaining[tightBy]} remain this ${tightBy}, so it could stop partway.`);
+      }
+      if (blockers.length === 0 && max > d.remaining.minute) {
+        warnings.push(`Exceeds the per-minute limit (${d.remaining.minute} left); later runs will wait for the limit to reset.`);
+      }
+      const perDay = estimate.recurring_runs_per_day;
+      if (perDay && perDay > d.remaining.day) {
+        warnings.push(`Schedules about ${perDay} runs per day but only ${d.remaining.day} remain today; runs will be skipped once the quota is nearly exhausted.`);
+      }
+    }
+  }
+
+  let proxyLeft: number | null = null;
+  if (quota.proxy) proxyLeft = quota.proxy.quota - quota.proxy.consumed;
+  if (estimate.proxy_hours > 0) {
+    if (proxyLeft === null) {
+      notes.push('Proxy quota unknown; could not check before running.');
+    } else if (estimate.proxy_hours > proxyLeft) {
+      blockers.push(`Needs ${estimate.proxy_hours} proxy hour${estimate.proxy_hours === 1 ? '' : 's'} but only ${proxyLeft} remain today (resets ${quota.proxy!.resets_at}).`);
+    }
+  }
+
+  return {
+    estimate,
+    verdict: blockers.length > 0 ? 'block' : warnings.length > 0 ? 'warn' : 'ok',
+    remaining: d ? { ...d.remaining } : null,
+    proxy_hours_remaining: proxyLeft,
+    messages: [...blockers, ...warnings, ...notes],
+  };
+}
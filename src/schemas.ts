@@ -0,0 +1,467 @@
+// Output schemas for MCP structured tool results
+// These mirror the response interfaces in types.ts so clients can read
+// fields directly from `structuredContent` instead of parsing text output.
+
+import { z } from 'zod';
+
+// ── Common Schemas ────────────────────────────────────────────
+
+export const regionResultSchema = z.object({
+  region: z.string(),
+  location: z.string().optional(),
+  flag_emoji: z.string().optional(),
+  success: z.boolean(),
+  response_time_ms: z.number(),
+  error: z.string().nullable(),
+  result: z.object({
+    output: z.string(),
+    command: z.string().optional(),
+  }).optional(),
+});
+
+export const lockedRegionSchema = z.object({
+  region: z.string(),
+  location: z.string().optional(),
+  flag_emoji: z.string().optional(),
+});
+
+// ── Quota Preflight ───────────────────────────────────────────
+
+const quotaWindowsSchema = z.object({ minute: z.number(), hour: z.number(), day: z.number(), month: z.number() });
+
+export const preflightSchema = z.object({
+  estimate: z.object({
+    diagnostic_runs: z.number(),
+    diagnostic_runs_max: z.number().optional(),
+    proxy_hours: z.number(),
+    recurring_runs_per_day: z.number().optional(),
+  }),
+  verdict: z.enum(['ok', 'warn', 'block']),
+  remaining: quotaWindowsSchema.nullable(),
+  proxy_hours_remaining: z.number().nullable(),
+  messages: z.array(z.string()),
+});
+
+/**
+ * Output schema for tools that accept `dry_run`: either `{ preflight }` alone
+ * (a dry run) or the tool's full result with an optional `preflight`.
+ * MCP output schemas must be objects, so the union is written as a check on
+ * an object of optional fields and advertised with `anyOf` required lists.
+ */
+export function withPreflight<T extends z.ZodRawShape>(schema: z.ZodObject<T>) {
+  const full = schema.extend({ preflight: preflightSchema.optional() });
+  const dryRun = z.strictObject({ preflight: preflightSchema });
+  const required = Object.keys(schema.shape).filter((key) => !z.safeParse(schema.shape[key], undefined).success);
+  return schema.partial().extend({ preflight: preflightSchema.optional() })
+    .superRefine((value, ctx) => {
+      if (dryRun.safeParse(value).success) return;
+      const result = full.safeParse(value);
+      if (!result.success) {
+        for (const issue of result.error.issues) ctx.addIssue({ code: 'custom', message: issue.message, path: issue.path });
+      }
+    })
+    .meta({ anyOf: [{ required: ['preflight'], maxProperties: 1 }, { required }] });
+}
+
+// ── SSL Certificate ───────────────────────────────────────────
+
+export const certificateInfoSchema = z.object({
+  is_valid: z.boolean(),
+  is_expired: z.boolean(),
+  days_until_expiry: z.number(),
+  valid_from: z.string(),
+  valid_until: z.string(),
+  subject: z.object({
+    common_name: z.string(),
+    organization: z.string().optional(),
+  }),
+  issuer: z.object({
+    common_name: z.string(),
+    organization: z.string().optional(),
+    country: z.string().optional(),
+  }),
+  sans: z.array(z.string()),
+  sans_truncated: z.boolean(),
+  hostname_match: z.boolean(),
+  cipher: z.object({
+    name: z.string(),
+    version: z.string(),
+    bits: z.number(),
+  }),
+  serial_number: z.string(),
+  fingerprint: z.string(),
+});
+
+// ── SSL Expiry Report ─────────────────────────────────────────
+
+const sslExpiryStatusSchema = z.enum(['ok', 'warning', 'critical', 'expired', 'error']);
+
+export const sslExpiryReportOutputSchema = z.object({
+  warning_days: z.number(),
+  critical_days: z.number(),
+  summary: z.record(sslExpiryStatusSchema, z.number()),
+  entries: z.array(z.object({
+    domain: z.string(),
+    status: sslExpiryStatusSchema,
+    days_until_expiry: z.number().nullable(),
+    valid_until: z.string().nullable(),
+    issuer: z.string().nullable(),
+    hostname_match: z.boolean().nullable(),
+    certificates_consistent: z.boolean().nullable(),
+    flags: z.array(z.string()),
+    error: z.string().nullable(),
+  })),
+  checked_at: z.string(),
+});
+
+// ── API v1 Unified Response ───────────────────────────────────
+
+const v1QuotaLimitsSchema = z.object({
+  minute: z.number(),
+  hour: z.number(),
+  day: z.number(),
+  month: z.number(),
+  concurrent: z.number().optional(),
+});
+
+export const v1QuotaInfoSchema = z.object({
+  tier: z.string(),
+  limits: v1QuotaLimitsSchema,
+  usage: v1QuotaLimitsSchema,
+  available: v1QuotaLimitsSchema,
+});
+
+// Fields every /api/v1/run response carries, whatever the tool
+const v1RunBaseSchema = z.object({
+  tool: z.string(),
+  target: z.string(),
+  regions_checked: z.array(regionResultSchema),
+  regions_locked: z.array(lockedRegionSchema),
+  is_authenticated: z.boolean(),
+  execution_time_ms: z.number(),
+  checked_at: z.string(),
+  quota: v1QuotaInfoSchema.optional(),
+});
+
+/**
+ * Output schema for /api/v1/run tools without a typed response of their
+ * own (tcp_ping, keyword_check, banner_grab, ...). Tool-specific fields are
+ * optional, matching V1RunResponse.
+ */
+export const v1RunOutputSchema = v1RunBaseSchema.extend({
+  domain: z.string().optional(),
+  url: z.string().optional(),
+  record_type: z.string().optional(),
+  port: z.number().optional(),
+  certificate: certificateInfoSchema.nullable().optional(),
+  region_certificates: z.array(z.object({
+    region: z.string(),
+    certificate: certificateInfoSchema.nullable(),
+  })).optional(),
+  certificates_consistent: z.boolean().optional(),
+  inconsistency_details: z.string().nullable().optional(),
+  global_status: z.string().optional(),
+  average_latency_ms: z.number().optional(),
+  min_latency_ms: z.number().optional(),
+  max_latency_ms: z.number().optional(),
+});
+
+// One per typed response (SslCheckResponse, DnsLookupResponse, ...). The API
+// may leave tool-specific fields out, so they stay optional as in V1RunResponse.
+
+export const sslCheckOutputSchema = v1RunBaseSchema.extend({
+  domain: z.string().optional(),
+  certificate: certificateInfoSchema.nullable().optional(),
+  region_certificates: z.array(z.object({
+    region: z.string(),
+    certificate: certificateInfoSchema.nullable(),
+  })).optional(),
+  certificates_consistent: z.boolean().optional(),
+  inconsistency_details: z.string().nullable().optional(),
+});
+
+export const dnsLookupOutputSchema = v1RunBaseSchema.extend({
+  domain: z.string().optional(),
+  record_type: z.string().optional(),
+});
+
+export const isItDownOutputSchema = v1RunBaseSchema.extend({
+  url: z.string().optional(),
+  global_status: z.string().optional(),
+});
+
+export const latencyTestOutputSchema = v1RunBaseSchema.extend({
+  average_latency_ms: z.number().optional(),
+  min_latency_ms: z.number().optional(),
+  max_latency_ms: z.number().optional(),
+});
+
+export const portCheckOutputSchema = v1RunBaseSchema.extend({
+  port: z.number().optional(),
+  global_status: z.string().optional(),
+});
+
+// ── Traceroute ────────────────────────────────────────────────
+
+const tracerouteHopSchema = z.object({
+  hop: z.number(),
+  host: z.string().nullable(),
+  ip: z.string().nullable(),
+  rtts_ms: z.array(z.number()),
+  timeouts: z.number(),
+  avg_rtt_ms: z.number().nullable(),
+});
+
+export const tracerouteOutputSchema = v1RunOutputSchema.extend({
+  traces: z.array(z.object({
+    region: z.string(),
+    destination_ip: z.string().nullable(),
+    reached: z.boolean(),
+    hops: z.array(tracerouteHopSchema),
+    largest_jump: z.object({ from_hop: z.number(), to_hop: z.number(), increase_ms: z.number() }).nullable(),
+    timeout_runs: z.array(z.object({ from_hop: z.number(), to_hop: z.number() })),
+    last_responding_hop: tracerouteHopSchema.nullable(),
+  })),
+});
+
+// ── Ping ──────────────────────────────────────────────────────
+
+export const pingOutputSchema = v1RunOutputSchema.extend({
+  ping: z.object({
+    stats: z.array(z.object({
+      region: z.string(),
+      transmitted: z.number(),
+      received: z.number(),
+      loss_percent: z.number(),
+      min_ms: z.number().nullable(),
+      avg_ms: z.number().nullable(),
+      max_ms: z.number().nullable(),
+      mdev_ms: z.number().nullable(),
+    })),
+    failed_regions: z.array(z.object({ region: z.string(), error: z.string() })),
+    avg_loss_percent: z.number().nullable(),
+    min_ms: z.number().nullable(),
+    avg_ms: z.number().nullable(),
+    max_ms: z.number().nullable(),
+  }),
+});
+
+// ── Nmap Port Matrix ──────────────────────────────────────────
+
+export const nmapOutputSchema = v1RunOutputSchema.extend({
+  port_matrix: z.object({
+    regions: z.array(z.string()),
+    rows: z.array(z.object({
+      port: z.number(),
+      protocol: z.string(),
+      service: z.string().nullable(),
+      states: z.record(z.string(), z.string()),
+      inconsistent: z.boolean(),
+    })),
+    inconsistent_ports: z.array(z.string()),
+    failed_regions: z.array(z.object({ region: z.string(), error: z.string() })),
+  }),
+});
+
+// ── WHOIS ─────────────────────────────────────────────────────
+
+export const whoisOutputSchema = v1RunOutputSchema.extend({
+  whois: z.object({
+    record: z.object({
+      registrar: z.string().nullable(),
+      created: z.string().nullable(),
+      updated: z.string().nullable(),
+      expires: z.string().nullable(),
+      days_until_expiry: z.number().nullable(),
+      nameservers: z.array(z.string()),
+      statuses: z.array(z.string()),
+      dnssec: z.string().nullable(),
+    }).nullable(),
+    source_region: z.string().nullable(),
+    expiry_warning_days: z.number(),
+    dns_nameservers: z.array(z.string()).nullable(),
+    nameservers_only_in_whois: z.array(z.string()),
+    nameservers_only_in_dns: z.array(z.string()),
+    warnings: z.array(z.string()),
+  }),
+});
+
+// ── DNS Propagation ───────────────────────────────────────────
+
+const dnsAnswerGroupSchema = z.object({
+  answers: z.array(z.string()),
+  regions: z.array(z.string()),
+  matches_expected: z.boolean().optional(),
+});
+
+export const dnsPropagationOutputSchema = z.object({
+  domain: z.string(),
+  record_type: z.string(),
+  expected: z.array(z.string()).nullable(),
+  match_mode: z.enum(['exact', 'contains']),
+  consistent: z.boolean(),
+  propagated: z.boolean().nullable(),
+  groups: z.array(dnsAnswerGroupSchema),
+  mismatched_regions: z.array(z.string()),
+  failed_regions: z.array(z.object({ region: z.string(), error: z.string() })),
+  locked_regions: z.array(z.string()),
+  execution_time_ms: z.number(),
+  checked_at: z.string(),
+});
+
+// ── Email Authentication Audit ───────────────────────────────
+
+const auditStatusSchema = z.enum(['pass', 'warn', 'fail']);
+
+export const emailAuthAuditOutputSchema = z.object({
+  domain: z.string(),
+  status: auditStatusSchema,
+  findings: z.array(z.object({
+    check: z.enum(['spf', 'dmarc', 'dkim', 'mx']),
+    status: auditStatusSchema,
+    message: z.string(),
+  })),
+  spf: z.object({
+    record: z.string(),
+    all: z.string().nullable(),
+    includes: z.array(z.string()),
+    redirect: z.string().nullable(),
+    lookup_count: z.number(),
+    include_depth: z.number(),
+  }).nullable(),
+  dmarc: z.object({
+    record: z.string(),
+    policy: z.string().nullable(),
+    subdomain_policy: z.string().nullable(),
+    pct: z.number(),
+    rua: z.array(z.string()),
+    ruf: z.array(z.string()),
+    adkim: z.string(),
+    aspf: z.string(),
+  }).nullable(),
+  dkim: z.array(z.object({
+    selector: z.string(),
+    record: z.string().nullable(),
+    key_type: z.string().nullable(),
+    has_key: z.boolean(),
+  })),
+  mx: z.array(dnsAnswerGroupSchema),
+  diagnostic_runs: z.number(),
+  checked_at: z.string(),
+});
+
+// ── Result History ────────────────────────────────────────────
+
+export const historyOutputSchema = z.object({
+  entries: z.array(z.object({
+    tool: z.string(),
+    target: z.string(),
+    checked_at: z.string(),
+    data: v1RunOutputSchema,
+  })),
+});
+
+// ── Monitors ──────────────────────────────────────────────────
+
+export const monitorOutputSchema = z.object({
+  id: z.string(),
+  tool: z.string(),
+  target: z.string(),
+  params: z.record(z.string(), z.unknown()).optional(),
+  regions: z.array(z.string()).optional(),
+  interval_minutes: z.number(),
+  label: z.string().optional(),
+  created_at: z.string(),
+  last_run_at: z.string().nullable(),
+  next_run_at: z.string().nullable(),
+  runs: z.number(),
+  skipped_runs: z.number(),
+  last_error: z.string().nullable(),
+  last_state: z.object({
+    global_status: z.string().optional(),
+    certificate_fingerprint: z.string().nullable().optional(),
+    dns_answers: z.record(z.string(), z.array(z.string())).optional(),
+    port_states: z.record(z.string(), z.string()).optional(),
+  }).nullable(),
+  last_change_at: z.string().nullable(),
+  last_changes: z.array(z.string()),
+});
+
+export const monitorListOutputSchema = z.object({
+  monitors: z.array(monitorOutputSchema),
+});
+
+// ── Site Diagnosis ────────────────────────────────────────────
+
+const regionCheckStateSchema = z.enum(['ok', 'fail', 'mismatch', 'skipped']);
+
+export const siteDiagnosisOutputSchema = z.object({
+  url: z.string(),
+  host: z.string(),
+  port: z.number(),
+  likely_causes: z.array(z.object({
+    cause: z.string(),
+    confidence: z.enum(['high', 'medium', 'low']),
+    regions: z.array(z.string()),
+    evidence: z.array(z.string()),
+  })),
+  checks: z.array(z.object({
+    check: z.enum(['http', 'dns', 'tls', 'tcp', 'traceroute']),
+    tool: z.string(),
+    status: z.enum(['ok', 'issue', 'error', 'skipped']),
+    summary: z.string(),
+    error: z.string().nullable(),
+  })),
+  regions: z.array(z.object({
+    region: z.string(),
+    http: regionCheckStateSchema,
+    dns: regionCheckStateSchema,
+    tls: regionCheckStateSchema,
+    tcp: regionCheckStateSchema,
+    traceroute: regionCheckStateSchema,
+  })),
+  diagnostic_runs: z.number(),
+  checked_at: z.string(),
+});
+
+// ── Geo Compare ───────────────────────────────────────────────
+
+const pagePerformanceSchema = z.object({
+  dns_ms: z.number().nullable(),
+  connect_ms: z.number().nullable(),
+  tls_ms: z.number().nullable(),
+  ttfb_ms: z.number().nullable(),
+  dom_content_loaded_ms: z.number().nullable(),
+  load_ms: z.number().nullable(),
+  lcp_ms: z.number().nullable(),
+  cls: z.number().nullable(),
+  inp_ms: z.number().nullable(),
+});
+
+export const geoCompareOutputSchema = z.object({
+  url: z.string(),
+  reference_region: z.string(),
+  renderer: z.enum(['browser', 'http']),
+  regions: z.array(z.object({
+    region: z.string(),
+    location: z.string(),
+    final_url: z.string().nullable(),
+    status: z.number().nullable(),
+    title: z.string().nullable(),
+    language: z.string().nullable(),
+    currency: z.string().nullable(),
+    currencies: z.array(z.string()),
+    diff: z.object({
+      identical: z.boolean(),
+      similarity: z.number(),
+      added: z.array(z.string()),
+      removed: z.array(z.string()),
+      added_count: z.number(),
+      removed_count: z.number(),
+    }).nullable(),
+    performance: pagePerformanceSchema.nullable(),
+    error: z.string().nullable(),
+  })),
+  differences: z.array(z.string()),
+  compared_at: z.string(),
+});
@@ -0,0 +1,1554 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { readFileSync } from 'node:fs';
+import { mkdir, chmod, access, constants as fsConstants } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ProbeOpsAccount } from './account.js';
+import type { Settings } from './config.js';
+import { ProbeOpsError, ProbeRegion, RegionGeo, DNS_RECORD_TYPES, GeoProxyResponse, GeoPageCapture, ProxyRegionInfo, V1RunResponse, HistoryQuery, DnsPropagationResult, EmailAuthAudit, SslExpiryReport, SiteDiagnosis, QuotaEstimate, PreflightResult, PROBE_REGIONS, MONITOR_TOOLS } from './types.js';
+import {
+  formatSslCheck,
+  formatSslExpiryReport,
+  formatDnsLookup,
+  formatDnsPropagation,
+  formatEmailAuthAudit,
+  formatIsItDown,
+  formatSiteDiagnosis,
+  formatLatencyTest,
+  formatTraceroute,
+  formatPing,
+  formatPortMatrix,
+  formatWhois,
+  formatPortCheck,
+  formatGenericResult,
+  formatGeoProxy,
+  formatProxyTokenList,
+  formatGeoCompare,
+  formatStepOutcomes,
+  formatNetworkSummary,
+  formatPagePerformance,
+  formatRegions,
+  formatProxyRegions,
+  formatQuota,
+  formatAccountStatus,
+  formatHistory,
+  formatMonitor,
+  formatMonitorList,
+  formatPreflight,
+} from './formatters.js';
+import { v1RunOutputSchema, sslCheckOutputSchema, dnsLookupOutputSchema, isItDownOutputSchema, latencyTestOutputSchema, portCheckOutputSchema, dnsPropagationOutputSchema, emailAuthAuditOutputSchema, sslExpiryReportOutputSchema, historyOutputSchema, tracerouteOutputSchema, pingOutputSchema, nmapOutputSchema, whoisOutputSchema, siteDiagnosisOutputSchema, monitorOutputSchema, monitorListOutputSchema, geoCompareOutputSchema, withPreflight } from './schemas.js';
+import { buildSslExpiryReport } from './ssl-report.js';
+import { parseTimeBound } from './history.js';
+import { auditEmailAuth, auditRunRange } from './email-auth.js';
+import { diagnoseSite, diagnosisRunCount } from './diagnose.js';
+import { analyzeDnsPropagation, parseTraceroute, summarizePing, buildPortMatrix, analyzeWhois } from './parsers.js';
+import { hasChromium, launchBrowser, newGeoContext, resolveDevice, capturePage, takeScreenshot, renderPdf, composeSideBySide, fetchViaProxy, runSteps, recordNetwork, summarizeNetwork, harFilePath, observeVitals, readPerformance, SETTLE_MS, DeviceDescriptor } from './geo-browser.js';
+import { compareGeoPages, readHtml } from './geo-compare.js';
+import { mapWithConcurrency } from './utils.js';
+
+const PKG_VERSION = JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf-8')).version as string;
+
+// Region geo-emulation settings (sourced from ProbeOps Horizon); the config
+// file's region_config can override individual fields
+const DEFAULT_REGION_CONFIG: Record<ProbeRegion, RegionGeo> = {
+  'eu-central': { timezone: 'Europe/Helsinki', locale: 'en-FI', lat: 60.17, lng: 24.94, location: 'Helsinki, Finland' },
+  'us-east':    { timezone: 'America/New_York', locale: 'en-US', lat: 39.04, lng: -77.49, location: 'Ashburn, Virginia' },
+  'ap-south':   { timezone: 'Asia/Kolkata', locale: 'en-IN', lat: 19.08, lng: 72.88, location: 'Mumbai, India' },
+  'us-west':    { timezone: 'America/Los_Angeles', locale: 'en-US', lat: 45.59, lng: -121.18, location: 'Boardman, Oregon' },
+  'ca-central': { timezone: 'America/Toronto', locale: 'en-CA', lat: 45.50, lng: -73.57, location: 'Montreal, Canada' },
+  'ap-southeast': { timezone: 'Australia/Sydney', locale: 'en-AU', lat: -33.87, lng: 151.21, location: 'Sydney, Australia' },
+};
+
+// Browser defaults for geo_browse
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+const DEFAULT_PAGE_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_CONTENT_CHARS = 5000;
+
+const stepTimeout = z.number().int().min(100).max(120_000).optional().describe('Give up after this many ms (default: 10000)');
+
+// Scripted geo_browse interactions, run in order before capture
+const browseStepSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('click'), selector: z.string().min(1), timeout_ms: stepTimeout }),
+  z.object({ action: z.literal('fill'), selector: z.string().min(1), value: z.string(), timeout_ms: stepTimeout }),
+  z.object({ action: z.literal('press'), key: z.string().min(1).describe('Key such as "Enter" or "Escape"'), selector: z.string().min(1).optional().describe('Element to focus first (default: the focused element)'), timeout_ms: stepTimeout }),
+  z.object({ action: z.literal('wait_for_selector'), selector: z.string().min(1), state: z.enum(['attached', 'detached', 'visible', 'hidden']).optional().describe('State to wait for (default: visible)'), timeout_ms: stepTimeout }),
+  z.object({ action: z.literal('wait_for_network_idle'), timeout_ms: stepTimeout }),
+  z.object({ action: z.literal('wait'), ms: z.number().int().min(0).max(30_000) }),
+  z.object({ action: z.literal('scroll'), selector: z.string().min(1).optional().describe('Element to scroll into view'), to: z.enum(['top', 'bottom']).optional().describe('Without a selector, scroll the page (default: bottom)'), timeout_ms: stepTimeout }),
+  z.object({ action: z.literal('dismiss_consent'), timeout_ms: stepTimeout }),
+]);
+
+// ── Proxy Helpers ─────────────────────────────────────────
+
+/**
+ * Get the proxy server URL for a region.
+ * Uses proxy_nodes map from API if available, falls back to proxy_url.
+ */
+function getProxyServer(data: GeoProxyResponse, region: string): string {
+  // Try region-specific URL from proxy_nodes map (returned by API)
+  if (data.proxy_nodes && data.proxy_nodes[region]) {
+    return data.proxy_nodes[region];
+  }
+  // Fall back to the primary proxy_url (assigned node)
+  if (data.proxy_url) {
+    return data.proxy_url;
+  }
+  // Last resort: derive from region name (should rarely happen)
+  process.stderr.write(`[probeops] Warning: no proxy_nodes or proxy_url in API response, using fallback FQDN for ${region}\n`);
+  return `https://node-1-${region}.probeops.com:443`;
+}
+
+// ── Helper ──────────────────────────────────────────────────
+
+function errorText(err: unknown): string {
+  if (err instanceof ProbeOpsError) {
+    const lines: string[] = [];
+    if (err.statusCode === 429) {
+      lines.push('Rate limit exceeded.');
+      if (err.retryAfter) lines.push(`Retry after: ${err.retryAfter} seconds.`);
+      if (err.rateLimitInfo) {
+        lines.push(`Limit: ${err.rateLimitInfo.limit} requests, Remaining: ${err.rateLimitInfo.remaining}.`);
+      }
+      lines.push('Use the probeops://usage resource to check your current quota.');
+      return lines.join(' ');
+    }
+    if (err.statusCode === 401) {
+      return 'Authentication failed. Check your PROBEOPS_API_KEY. Get a key at https://probeops.com/dashboard/api-keys';
+    }
+    if (err.statusCode === 403) {
+      return 'Access denied. This feature may require a paid plan. See https://probeops.com/pricing';
+    }
+    return `ProbeOps API Error (${err.statusCode}): ${err.detail || err.message}`;
+  }
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+// ── MCP Server Setup ────────────────────────────────────────
+
+/** Accounts for the named profiles in the config file, by profile name */
+export type ProfileAccounts = ReadonlyMap<string, ProbeOpsAccount>;
+
+export interface ServerOptions {
+  profiles?: ProfileAccounts;
+  /** Defaults from the config file; API client settings are applied by the caller */
+  settings?: Settings;
+}
+
+/**
+ * Create an MCP server with every ProbeOps tool and resource registered.
+ * Tools run against the default account unless called with a `profile`;
+ * resources always use the default account. Stdio mode creates one server;
+ * HTTP mode creates one per client session.
+ */
+export function createServer(defaultAccount: ProbeOpsAccount, options: ServerOptions = {}): McpServer {
+  const { profiles = new Map<string, ProbeOpsAccount>(), settings = {} } = options;
+  const userAgent = settings.userAgent ?? DEFAULT_USER_AGENT;
+  const pageTimeoutMs = settings.pageTimeoutMs ?? DEFAULT_PAGE_TIMEOUT_MS;
+  const maxContentChars = settings.maxContentChars ?? DEFAULT_MAX_CONTENT_CHARS;
+  const harDir = settings.harDir;
+  const defaultRecordType = settings.defaultRecordType ?? 'A';
+  const regionConfig = Object.fromEntries(PROBE_REGIONS.map((r) => [r, { ...DEFAULT_REGION_CONFIG[r], ...settings.regionConfig?.[r] }])) as Record<ProbeRegion, RegionGeo>;
+
+  // Optional region filter shared by every diagnostic tool
+  const regionsParam = z.array(z.enum(PROBE_REGIONS)).min(1).optional()
+    .describe(`Only run from these regions (default: ${settings.defaultRegions ? settings.defaultRegions.join(', ') : 'all regions your tier allows'}). One or more of: ${PROBE_REGIONS.join(', ')}`);
+
+  const profileNames = [...profiles.keys()];
+  const profileParam = z.string().optional().describe(profileNames.length > 0
+    ? `Named profile (API key and endpoint) to run against: ${profileNames.join(', ')} (default: the server's default account)`
+    : 'Named profile from the config file (none are configured; omit to use the default account)');
+
+  function selectAccount(profile: string | undefined): ProbeOpsAccount {
+    if (profile === undefined) return defaultAccount;
+    const account = profiles.get(profile);
+    if (!account) {
+      throw new Error(profileNames.length > 0
+        ? `Unknown profile "${profile}". Configured profiles: ${profileNames.join(', ')}.`
+        : `Unknown profile "${profile}". No profiles are configured; omit "profile" to use the default account.`);
+    }
+    return account;
+  }
+
+  // Every distinct account this server can reach, for monitor notifications
+  const allAccounts = [...new Set([defaultAccount, ...profiles.values()])];
+
+  /**
+   * Build a diagnostic tool result: human-readable text plus the typed result
+   * (usually the raw V1RunResponse) as structured content, validated against
+   * the tool's output schema.
+   */
+  function diagnosticResult(account: ProbeOpsAccount, data: V1RunResponse | DnsPropagationResult | EmailAuthAudit | SslExpiryReport | SiteDiagnosis, text: string) {
+    return {
+      content: [{ type: 'text' as const, text: text + account.buildQuotaFooter('diagnostic') }],
+      structuredContent: { ...data },
+    };
+  }
+
+  /**
+   * Check a call's estimated cost against the remaining quota. Returns a
+   * finished tool result for dry runs and refused calls; otherwise the
+   * preflight is attached to the real result.
+   */
+  async function preflightCheck(account: ProbeOpsAccount, toolName: string, estimate: QuotaEstimate, dryRun?: boolean) {
+    const preflight = await account.preflight(estimate);
+    if (dryRun) {
+      return {
+        preflight,
+        response: {
+          content: [{ type: 'text' as const, text: formatPreflight(toolName, preflight, true) }],
+          structuredContent: { preflight },
+        },
+      };
+    }
+    if (preflight.verdict === 'block') {
+      process.stderr.write(`[probeops] ${toolName} refused by quota preflight: ${preflight.messages[0]}\n`);
+      return {
+        preflight,
+        response: {
+          content: [{ type: 'text' as const, text: formatPreflight(toolName, preflight, false) + '\n\nNothing was run. Use the probeops://usage resource to check your quota.' }],
+          isError: true,
+        },
+      };
+    }
+    return { preflight, response: null };
+  }
+
+  function preflightWarnings(preflight: PreflightResult): string {
+    if (preflight.verdict !== 'warn') return '';
+    return preflight.messages.map((m) => `WARNING: ${m}`).join('\n') + '\n\n';
+  }
+
+  const server = new McpServer({
+    name: 'probeops',
+    version: PKG_VERSION,
+  }, {
+    // Monitors report changes as log messages and resource updates
+    capabilities: { logging: {}, resources: { subscribe: true } },
+  });
+
+  // ── Tools ───────────────────────────────────────────────────
+
+  server.registerTool(
+    'ssl_check',
+    {
+      description: 'Check SSL/TLS certificate for a domain from multiple global regions. Returns certificate details (validity, expiry, issuer, TLS version, SANs) and checks consistency across regions.',
+      inputSchema: {
+        domain: z.string().describe('Domain name to check (e.g., "example.com")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: sslCheckOutputSchema,
+    },
+    async ({ domain, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.sslCheck({ domain, regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatSslCheck(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'ssl_expiry_report',
+    {
+      description: 'Check SSL/TLS certificates for many domains at once and return a table sorted by soonest expiry, with warning/critical thresholds and flags for hostname mismatches or certificates that differ across regions. Uses one diagnostic run per domain.',
+      inputSchema: z.object({
+        domains: z.array(z.string()).min(1).max(100).describe('Domains to check (e.g., ["example.com", "api.example.com"])'),
+        warning_days: z.number().int().min(1).max(365).optional().describe('Flag certificates expiring within this many days as WARNING (default: 30)'),
+        critical_days: z.number().int().min(0).max(365).optional().describe('Flag certificates expiring within this many days as CRITICAL (default: 7)'),
+        concurrency: z.number().int().min(1).max(10).optional().describe('Checks to run in parallel (default: 3, keep within your tier\'s concurrent limit)'),
+        regions: regionsParam,
+        dry_run: z.boolean().optional().describe('Only estimate the quota this call would use and compare it with what remains; nothing is run'),
+        profile: profileParam,
+      }).superRefine(({ warning_days, critical_days }, ctx) => {
+        // Unset thresholds take their defaults, so a lone critical_days above 30 is inverted too
+        if ((critical_days ?? 7) > (warning_days ?? 30)) {
+          ctx.addIssue({ code: 'custom', path: ['critical_days'], message: `critical_days (${critical_days ?? 7}) must not exceed warning_days (${warning_days ?? 30})` });
+        }
+      }),
+      outputSchema: withPreflight(sslExpiryReportOutputSchema),
+    },
+    async ({ domains, warning_days, critical_days, concurrency, regions, dry_run, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const runs = new Set(domains.map((d) => d.trim().toLowerCase()).filter(Boolean)).size;
+        const { preflight, response } = await preflightCheck(account, 'ssl_expiry_report', { diagnostic_runs: runs, proxy_hours: 0 }, dry_run);
+        if (response) return response;
+        const report = await buildSslExpiryReport(domains, {
+          warningDays: warning_days ?? 30,
+          criticalDays: critical_days ?? 7,
+          concurrency: concurrency ?? 3,
+        }, async (domain) => {
+          const data = await account.client.sslCheck({ domain, regions });
+          account.updateQuotaFromV1(data);
+          return data;
+        });
+        const result = { ...report, preflight };
+        return diagnosticResult(account, result, preflightWarnings(preflight) + formatSslExpiryReport(report));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'dns_lookup',
+    {
+      description: 'Look up DNS records for a domain from multiple global regions. Supports A, AAAA, CNAME, MX, TXT, NS, SOA, CAA, and PTR record types. Useful for checking DNS propagation across regions.',
+      inputSchema: {
+        domain: z.string().describe('Domain name to look up (e.g., "example.com")'),
+        record_type: z.enum(DNS_RECORD_TYPES).optional().describe(`DNS record type (default: ${defaultRecordType})`),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: dnsLookupOutputSchema,
+    },
+    async ({ domain, record_type, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.dnsLookup({ domain, record_type, regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatDnsLookup(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'dns_propagation',
+    {
+      description: 'Check whether a DNS change has propagated. Looks up a record from multiple global regions, normalises each answer set, groups regions that see identical answers, and flags regions that disagree with the majority or with an expected value.',
+      inputSchema: {
+        domain: z.string().describe('Domain name to check (e.g., "example.com")'),
+        record_type: z.enum(DNS_RECORD_TYPES).optional().describe(`DNS record type (default: ${defaultRecordType})`),
+        expected: z.union([z.string(), z.array(z.string())]).optional().describe('Expected answer(s), e.g. "203.0.113.10" or ["10 mx1.example.com", "20 mx2.example.com"]'),
+        match: z.enum(['exact', 'contains']).optional().describe('exact: answer set must equal expected; contains: answer set must include every expected value (default: exact)'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: dnsPropagationOutputSchema,
+    },
+    async ({ domain, record_type, expected, match, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.dnsLookup({ domain, record_type, regions });
+        account.updateQuotaFromV1(data);
+        const expectedList = expected === undefined ? null : (Array.isArray(expected) ? expected : [expected]);
+        const result = analyzeDnsPropagation({ ...data, record_type: data.record_type ?? record_type ?? defaultRecordType }, expectedList, match);
+        return diagnosticResult(account, result, formatDnsPropagation(result));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'mx_lookup',
+    {
+      description: 'Look up MX (Mail Exchange) records for a domain. Shows mail servers and priorities. Useful for verifying email configuration and troubleshooting email delivery.',
+      inputSchema: {
+        domain: z.string().describe('Domain name to look up (e.g., "example.com")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: dnsLookupOutputSchema,
+    },
+    async ({ domain, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.dnsLookup({ domain, record_type: 'MX', regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatDnsLookup(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'txt_lookup',
+    {
+      description: 'Look up TXT records for a domain. Shows SPF, DKIM, DMARC, domain verification, and other TXT records. Essential for email authentication and domain ownership verification.',
+      inputSchema: {
+        domain: z.string().describe('Domain name to look up (e.g., "example.com")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: dnsLookupOutputSchema,
+    },
+    async ({ domain, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.dnsLookup({ domain, record_type: 'TXT', regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatDnsLookup(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'email_auth_audit',
+    {
+      description: 'Audit email authentication for a domain: parses SPF (including include depth and the 10-lookup limit), DMARC policy/rua/pct, and DKIM keys for the given selectors, and shows the MX set seen from each region. Returns pass/warn/fail findings. Uses several diagnostic runs (one per record looked up).',
+      inputSchema: {
+        domain: z.string().describe('Domain to audit (e.g., "example.com")'),
+        dkim_selectors: z.array(z.string().regex(/^[A-Za-z0-9._-]+$/)).max(10).optional().describe('DKIM selectors to check (e.g., ["google", "selector1"]). DKIM is skipped when omitted'),
+        regions: regionsParam,
+        dry_run: z.boolean().optional().describe('Only estimate the quota this call would use and compare it with what remains; nothing is run'),
+        profile: profileParam,
+      },
+      outputSchema: withPreflight(emailAuthAuditOutputSchema),
+    },
+    async ({ domain, dkim_selectors, regions, dry_run, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const range = auditRunRange(dkim_selectors?.length ?? 0);
+        const { preflight, response } = await preflightCheck(account, 'email_auth_audit', { diagnostic_runs: range.min, diagnostic_runs_max: range.max, proxy_hours: 0 }, dry_run);
+        if (response) return response;
+        const result = await auditEmailAuth(domain, dkim_selectors ?? [], async (name, recordType, lookupRegions) => {
+          const data = await account.client.dnsLookup({ domain: name, record_type: recordType, regions: lookupRegions });
+          account.updateQuotaFromV1(data);
+          return data;
+        }, regions);
+        const audited = { ...result, preflight };
+        return diagnosticResult(account, audited, preflightWarnings(preflight) + formatEmailAuthAudit(result));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'ns_lookup',
+    {
+      description: 'Look up NS (Nameserver) records for a domain. Shows authoritative DNS servers. Useful for verifying DNS delegation and nameserver configuration.',
+      inputSchema: {
+        domain: z.string().describe('Domain name to look up (e.g., "example.com")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: dnsLookupOutputSchema,
+    },
+    async ({ domain, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.dnsLookup({ domain, record_type: 'NS', regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatDnsLookup(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'cname_lookup',
+    {
+      description: 'Look up CNAME (Canonical Name) records for a domain. Shows DNS aliases. Useful for verifying CDN configuration and subdomain routing.',
+      inputSchema: {
+        domain: z.string().describe('Domain or subdomain to look up (e.g., "www.example.com")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: dnsLookupOutputSchema,
+    },
+    async ({ domain, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.dnsLookup({ domain, record_type: 'CNAME', regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatDnsLookup(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'caa_lookup',
+    {
+      description: 'Look up CAA (Certificate Authority Authorization) DNS records for a domain. Shows which certificate authorities are authorized to issue SSL/TLS certificates.',
+      inputSchema: {
+        domain: z.string().describe('Domain name to look up (e.g., "example.com")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: dnsLookupOutputSchema,
+    },
+    async ({ domain, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.dnsLookup({ domain, record_type: 'CAA', regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatDnsLookup(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'reverse_dns_lookup',
+    {
+      description: 'Perform reverse DNS (PTR) lookup for an IP address. Finds the hostname associated with an IP. Essential for email deliverability verification and server identification.',
+      inputSchema: {
+        ip: z.string().describe('IP address to look up (e.g., "8.8.8.8")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: dnsLookupOutputSchema,
+    },
+    async ({ ip, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.dnsLookup({ domain: ip, record_type: 'PTR', regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatDnsLookup(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'is_it_down',
+    {
+      description: 'Check if a website is up, down, or partially available from multiple global regions. Returns HTTP status and response time per region.',
+      inputSchema: {
+        url: z.string().describe('Full URL to check (e.g., "https://example.com")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: isItDownOutputSchema,
+    },
+    async ({ url, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.isItDown({ url, regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatIsItDown(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'latency_test',
+    {
+      description: 'Measure network latency (ping) to a target from multiple global regions. Returns per-region latency plus average, min, and max.',
+      inputSchema: {
+        target: z.string().describe('Hostname or IP to test (e.g., "example.com" or "8.8.8.8")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: latencyTestOutputSchema,
+    },
+    async ({ target, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.latencyTest({ target, regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatLatencyTest(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'traceroute',
+    {
+      description: 'Trace the network path to a target from one or more global regions. Parses each hop (host, IP, RTTs, timeouts) and highlights the largest latency jump, runs of unresponsive hops and the last responding hop when the target is not reached. Supports TCP, UDP, and ICMP protocols.',
+      inputSchema: {
+        target: z.string().describe('Hostname or IP to trace (e.g., "example.com")'),
+        protocol: z.enum(['tcp', 'udp', 'icmp']).optional().describe('Protocol to use (default: tcp)'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: tracerouteOutputSchema,
+    },
+    async ({ target, protocol, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.traceroute({ target, protocol, regions });
+        account.updateQuotaFromV1(data);
+        const traced = {
+          ...data,
+          traces: data.regions_checked
+            .filter((r) => r.success && r.result?.output)
+            .map((r) => parseTraceroute(r.region, r.result!.output, data.target)),
+        };
+        return diagnosticResult(account, traced, formatTraceroute(traced));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'port_check',
+    {
+      description: 'Check if a specific port is open, closed, or filtered on a target from multiple global regions. Useful for verifying firewall rules and service availability.',
+      inputSchema: {
+        target: z.string().describe('Hostname or IP to check (e.g., "example.com")'),
+        port: z.number().int().min(1).max(65535).describe('Port number to check (1-65535)'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: portCheckOutputSchema,
+    },
+    async ({ target, port, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.portCheck({ target, port, regions });
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatPortCheck(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'diagnose_site',
+    {
+      description: 'One-shot incident triage for a URL. Runs is_it_down, dns_lookup, ssl_check, tcp_ping and traceroute in parallel, correlates them per region (e.g. "DNS resolves differently in ap-south and TLS fails only there") and returns a ranked list of likely causes with the evidence from each check. Uses up to 5 diagnostic runs.',
+      inputSchema: {
+        url: z.string().describe('URL reported as broken (e.g., "https://example.com"). A bare hostname is treated as https://'),
+        regions: regionsParam,
+        dry_run: z.boolean().optional().describe('Only estimate the quota this call would use and compare it with what remains; nothing is run'),
+        profile: profileParam,
+      },
+      outputSchema: withPreflight(siteDiagnosisOutputSchema),
+    },
+    async ({ url, regions, dry_run, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const { preflight, response } = await preflightCheck(account, 'diagnose_site', { diagnostic_runs: diagnosisRunCount(url), proxy_hours: 0 }, dry_run);
+        if (response) return response;
+        const result = await diagnoseSite(url, async (tool, target, params) => {
+          const data = await account.client.run(tool, target, params, regions);
+          account.updateQuotaFromV1(data);
+          return data;
+        });
+        const diagnosis = { ...result, preflight };
+        return diagnosticResult(account, diagnosis, preflightWarnings(preflight) + formatSiteDiagnosis(result));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  // ── New Tools (via v1/run) ───────────────────────────────────
+
+  server.registerTool(
+    'ping',
+    {
+      description: 'ICMP ping a target from multiple global regions. Returns packets sent/received, packet loss and min/avg/max/mdev round-trip times per region, compared in one table with cross-region averages. Useful for basic reachability and latency testing.',
+      inputSchema: {
+        target: z.string().describe('Hostname or IP to ping (e.g., "example.com" or "8.8.8.8")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: pingOutputSchema,
+    },
+    async ({ target, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.run('ping', target, {}, regions);
+        account.updateQuotaFromV1(data);
+        const pinged = { ...data, ping: summarizePing(data) };
+        return diagnosticResult(account, pinged, formatPing(data, pinged.ping));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'whois',
+    {
+      description: 'Look up WHOIS registration information for a domain. Parses registrar, creation/updated/expiry dates, days until expiry, nameservers, status codes and DNSSEC. Warns when the domain expires soon or when the WHOIS nameservers differ from the NS records the probe regions see (one extra diagnostic run; disable with compare_nameservers: false).',
+      inputSchema: {
+        domain: z.string().describe('Domain name to look up (e.g., "example.com")'),
+        expiry_warning_days: z.number().int().min(1).max(365).default(30).describe('Warn when the domain expires within this many days (default: 30)'),
+        compare_nameservers: z.boolean().default(true).describe('Also run an NS lookup and compare it with the WHOIS nameservers (default: true)'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: whoisOutputSchema,
+    },
+    async ({ domain, expiry_warning_days, compare_nameservers, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const [whoisResult, nsResult] = await Promise.allSettled([
+          account.client.run('whois', domain, {}, regions),
+          compare_nameservers ? account.client.dnsLookup({ domain, record_type: 'NS', regions }) : Promise.resolve(null),
+        ]);
+        if (whoisResult.status === 'rejected') throw whoisResult.reason;
+        const data = whoisResult.value;
+        account.updateQuotaFromV1(data);
+        const nsData = nsResult.status === 'fulfilled' ? nsResult.value : null;
+        if (nsData) account.updateQuotaFromV1(nsData);
+        const whois = analyzeWhois(data, nsData, expiry_warning_days);
+        if (nsResult.status === 'rejected') {
+          whois.warnings.push(`Nameserver comparison skipped: ${errorText(nsResult.reason)}`);
+        }
+        const result = { ...data, whois };
+        return diagnosticResult(account, result, formatWhois(data, whois));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'nmap_port_check',
+    {
+      description: 'Check if multiple ports are open or closed on a target from multiple global regions using nmap. Checks specified ports (not a full scan). Shows a ports × regions matrix and flags ports that are open from some regions but filtered or closed from others.',
+      inputSchema: {
+        target: z.string().describe('Hostname or IP to check (e.g., "example.com")'),
+        ports: z.string().optional().describe('Ports to check (e.g., "80,443" or "22,80,443,8080"). Default: common ports 1-1024'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: nmapOutputSchema,
+    },
+    async ({ target, ports, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const params: Record<string, unknown> = {};
+        if (ports) params.ports = ports;
+        const data = await account.client.run('nmap', target, params, regions);
+        account.updateQuotaFromV1(data);
+        const scanned = { ...data, port_matrix: buildPortMatrix(data) };
+        return diagnosticResult(account, scanned, formatPortMatrix(data, scanned.port_matrix));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'tcp_ping',
+    {
+      description: 'Measure TCP-level latency to a specific port on a target from multiple global regions. More reliable than ICMP ping for hosts that block ICMP.',
+      inputSchema: {
+        target: z.string().describe('Hostname or IP to test (e.g., "example.com")'),
+        port: z.number().int().min(1).max(65535).describe('Port number to TCP ping (e.g., 443)'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: v1RunOutputSchema,
+    },
+    async ({ target, port, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.run('tcping', target, { port }, regions);
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatGenericResult(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'keyword_check',
+    {
+      description: 'Check if a keyword exists in a web page\'s raw HTML source from multiple global regions. Searches raw HTML — does not execute JavaScript, so content rendered client-side (SPAs, dynamic widgets) may not be detected. Useful for verifying static content delivery and geo-specific content.',
+      inputSchema: {
+        url: z.string().describe('URL to check (e.g., "https://example.com")'),
+        keyword: z.string().describe('Keyword or phrase to search for on the page'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: v1RunOutputSchema,
+    },
+    async ({ url, keyword, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.run('keyword_check', url, { keyword }, regions);
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatGenericResult(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'websocket_check',
+    {
+      description: 'Check WebSocket endpoint health and connectivity from multiple global regions. Verifies that a WebSocket server is accepting connections.',
+      inputSchema: {
+        url: z.string().describe('WebSocket URL to check (e.g., "wss://example.com/ws")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: v1RunOutputSchema,
+    },
+    async ({ url, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.run('websocket_check', url, {}, regions);
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatGenericResult(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'banner_grab',
+    {
+      description: 'Grab the service banner from a specific port on a target from multiple global regions. Identifies service type and version.',
+      inputSchema: {
+        target: z.string().describe('Hostname or IP to check (e.g., "example.com")'),
+        port: z.number().int().min(1).max(65535).describe('Port number to grab banner from (e.g., 22, 80, 443)'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: v1RunOutputSchema,
+    },
+    async ({ target, port, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.run('banner_grab', target, { port }, regions);
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatGenericResult(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'api_health',
+    {
+      description: 'Check API endpoint health from multiple global regions. Sends an HTTP request and reports status code, response time, and availability.',
+      inputSchema: {
+        url: z.string().describe('API URL to check (e.g., "https://api.example.com/health")'),
+        regions: regionsParam,
+        profile: profileParam,
+      },
+      outputSchema: v1RunOutputSchema,
+    },
+    async ({ url, regions, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const data = await account.client.run('api_health', url, {}, regions);
+        account.updateQuotaFromV1(data);
+        return diagnosticResult(account, data, formatGenericResult(data));
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  // ── Proxy Tools ─────────────────────────────────────────────
+
+  server.tool(
+    'get_geo_proxy',
+    'Get geo-proxy credentials for a specific region. Returns a proxy JWT token with tier-based quota info. The token can be used with Playwright or any HTTPS proxy client to browse the web from that geographic region. A single token works across all regions. Without ttl_hours or label the cached token is reused; with either, a new token is created.',
+    {
+      region: z.enum(PROBE_REGIONS).describe('Region to proxy through'),
+      ttl_hours: z.number().int().min(1).max(24).optional().describe('Create a new token valid for this many hours (capped at your tier\'s max_token_ttl_hours; uses one proxy hour per hour)'),
+      label: z.string().min(1).max(100).optional().describe('Create a new token with this label, shown by list_proxy_tokens (default label: "MCP Server")'),
+      profile: profileParam,
+    },
+    async ({ region, ttl_hours, label, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        account.refreshQuotaCache().catch(() => {});
+        let data: GeoProxyResponse;
+        let note = '';
+        if (ttl_hours !== undefined || label !== undefined) {
+          const { response } = await preflightCheck(account, 'get_geo_proxy', { diagnostic_runs: 0, proxy_hours: account.cappedTokenHours(ttl_hours ?? 1) }, false);
+          if (response) return response;
+          const created = await account.createProxyToken(region, ttl_hours ?? 1, label);
+          data = created.data;
+          if (created.grantedHours < created.requestedHours) {
+            note = `\n\n  Note: requested ${created.requestedHours}h, capped at your tier's maximum of ${created.grantedHours}h.`;
+          }
+        } else {
+          data = await account.getOrCreateProxyToken(region);
+        }
+        const proxyServer = getProxyServer(data, region);
+        const fqdn = proxyServer.replace(/^https?:\/\//, '').replace(/:.*$/, '');
+        return { content: [{ type: 'text', text: formatGeoProxy(data, fqdn) + note + account.buildQuotaFooter('proxy') }] };
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'list_proxy_tokens',
+    'List every geo-proxy token on your ProbeOps account, including tokens created by other sessions or machines, with label, expiry and whether each is active. Use it to see how close you are to the active token limit. Does not use any quota.',
+    {
+      profile: profileParam,
+    },
+    async ({ profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const { tokens } = await account.client.listProxyTokens();
+        const current = account.getActiveToken()?.token_id ?? null;
+        const maxActive = account.getTierLimits()?.max_active_tokens ?? null;
+        return { content: [{ type: 'text', text: formatProxyTokenList(tokens, current, maxActive) }] };
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'revoke_proxy_token',
+    'Revoke a geo-proxy token immediately, e.g. one that has leaked or is no longer needed. Revoking does not refund the proxy hours it used.',
+    {
+      token_id: z.string().min(1).describe('Token ID from list_proxy_tokens or get_geo_proxy'),
+      profile: profileParam,
+    },
+    async ({ token_id, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const { wasCached } = await account.revokeProxyToken(token_id);
+        const text = `Proxy token ${token_id} revoked.` + (wasCached ? ' It was the token this server reuses; the next geo_browse or get_geo_proxy call will create a new one.' : '');
+        return { content: [{ type: 'text', text }] };
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'geo_browse',
+    'Browse a URL from a specific geographic region using ProbeOps geo-proxy. Launches a real browser through a geo-located proxy and returns the page content and a screenshot. Optional steps (click, fill, press, wait, scroll, dismiss cookie consent) run before capture, e.g. to get past a consent wall or country picker. Emulate a phone or tablet with a device preset or custom viewport, take full-page or element screenshots, and render a PDF. Optionally record network traffic (failed requests, slow resources, third-party domains) and export it as HAR. Reports navigation timing and Core Web Vitals (LCP, CLS, INP) as measured from the region. One-step tool — no manual Playwright setup needed.',
+    {
+      url: z.string().describe('URL to browse (e.g., "https://example.com/pricing")'),
+      region: z.enum(PROBE_REGIONS).describe('Region to browse from'),
+      action: z.enum(['screenshot', 'content', 'both']).optional().describe('What to capture: screenshot, page content text, or both (default: both)'),
+      steps: z.array(browseStepSchema).max(25).optional().describe('Interactions to run in order after the page loads and before capture (needs Chromium). A failed step skips the rest; every step\'s outcome is reported'),
+      device: z.string().optional().describe('Playwright device to emulate, e.g. "iPhone 15", "Pixel 7", "iPad Mini" or "iPhone 15 landscape" (sets viewport, user agent, touch and pixel ratio; rendered with Chromium)'),
+      viewport: z.object({
+        width: z.number().int().min(200).max(3840),
+        height: z.number().int().min(200).max(2160),
+      }).optional().describe('Custom viewport in CSS pixels (default: the device\'s, else 1280x720)'),
+      full_page: z.boolean().optional().describe('Screenshot the whole scrollable page instead of the viewport (default: false)'),
+      selector: z.string().min(1).optional().describe('Screenshot only the first element matching this CSS selector'),
+      pdf: z.boolean().optional().describe('Also render the page to PDF (A4), returned as an embedded resource (default: false)'),
+      network: z.boolean().optional().describe('Record every request the page makes and summarise failed requests, slowest resources and third-party domains (default: false)'),
+      har: z.boolean().optional().describe('Also write the recorded traffic as a HAR file to the configured HAR directory (PROBEOPS_HAR_DIR); implies network'),
+      dry_run: z.boolean().optional().describe('Only check whether a proxy hour would be used and whether one remains; nothing is browsed'),
+      profile: profileParam,
+    },
+    async ({ url, region, action, steps, device, viewport, full_page, selector, pdf, network, har, dry_run, profile }) => {
+      const account = selectAccount(profile);
+      account.refreshQuotaCache().catch(() => {});
+      const captureAction = action || 'both';
+
+      if (har && !harDir) {
+        return { content: [{ type: 'text', text: 'HAR export needs an output directory. Set PROBEOPS_HAR_DIR or "har_dir" in the config file.' }], isError: true };
+      }
+
+      // Resolve the device before anything costs quota
+      let deviceName: string | undefined;
+      let deviceDescriptor: DeviceDescriptor | undefined;
+      if (device) {
+        try {
+          ({ name: deviceName, descriptor: deviceDescriptor } = await resolveDevice(device));
+        } catch (err) {
+          return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+        }
+      }
+      const emulationLine = deviceDescriptor
+        ? `Device: ${deviceName} (${(viewport ?? deviceDescriptor.viewport).width}x${(viewport ?? deviceDescriptor.viewport).height}${deviceDescriptor.isMobile ? ', mobile' : ''})`
+        : viewport ? `Viewport: ${viewport.width}x${viewport.height}` : '';
+
+      // Options the HTTP fallback cannot honour
+      const browserOnly = [
+        steps?.length && `${steps.length} step(s)`,
+        viewport && 'viewport',
+        full_page && 'full_page',
+        selector && 'selector',
+        pdf && 'pdf',
+        network && 'network',
+        har && 'har',
+      ].filter(Boolean);
+      const browserOnlyNote = browserOnly.length > 0 ? `Note: ignored without full browser rendering: ${browserOnly.join(', ')}.` : '';
+
+      // Step 1: Detect if Playwright is available BEFORE acquiring a token
+      const hasPlaywright = await hasChromium();
+
+      // Step 2: Check quota, then get proxy credentials (reuses cached token if valid)
+      let proxyData;
+      try {
+        const { response } = await preflightCheck(account, 'geo_browse', { diagnostic_runs: 0, proxy_hours: account.proxyHoursNeeded() }, dry_run);
+        if (response) return response;
+        // After the dry-run return (no side effects) but before a token is spent
+        if (har) {
+          try {
+            await mkdir(harDir!, { recursive: true, mode: 0o700 });
+            await access(harDir!, fsConstants.W_OK);
+          } catch (err) {
+            return { content: [{ type: 'text', text: `Cannot write HAR files to ${harDir}: ${err instanceof Error ? err.message : err}` }], isError: true };
+          }
+        }
+        proxyData = await account.getOrCreateProxyToken(region);
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+
+      const proxyServer = getProxyServer(proxyData, region);
+      const proxy = { server: proxyServer, jwt: proxyData.jwt_token };
+
+      // Step 3a: Playwright path (full browser rendering)
+      if (hasPlaywright) {
+        try {
+          const browser = await launchBrowser();
+          try {
+            let harPath = har ? harFilePath(harDir!, region, url) : null;
+            const context = await newGeoContext(browser, proxy, { userAgent, geo: regionConfig[region], device: deviceDescriptor, viewport, harPath: harPath ?? undefined });
+
+            const page = await context.newPage();
+            await observeVitals(page);
+            const stopRecording = network || har ? recordNetwork(page) : null;
+            await page.goto(url, { waitUntil: 'domcontentloaded', timeout: pageTimeoutMs });
+            await page.waitForTimeout(SETTLE_MS);
+            const stepsText = steps?.length ? formatStepOutcomes(await runSteps(page, steps)) : '';
+            // After the steps, so INP covers their interactions
+            const performance = await readPerformance(page);
+
+            const title = await page.title();
+            const finalUrl = page.url();
+            const header = [
+              `Geo-Browse: ${url} from ${region}`,
+              `Proxy: ${proxyServer}`,
+              emulationLine,
+              `Final URL: ${finalUrl}`,
+              `Title: ${title}`,
+              `Quota: ${proxyData.daily_usage.consumed}/${proxyData.daily_usage.quota} tokens used today`,
+            ].filter(Boolean);
+            header.push('', formatPagePerformance(performance, `${region} (${regionConfig[region].location})`));
+            if (stepsText) header.push('', stepsText);
+
+            const content: Array<
+              | { type: 'text'; text: string }
+              | { type: 'image'; data: string; mimeType: string }
+              | { type: 'resource'; resource: { uri: string; mimeType: string; blob: string } }
+            > = [];
+
+            // Capture text content
+            if (captureAction === 'content' || captureAction === 'both') {
+              const text = await page.evaluate('document.body.innerText') as string;
+              const truncated = text.length > maxContentChars ? text.slice(0, maxContentChars) + '\n\n... [truncated, full page is ' + text.length + ' chars]' : text;
+              content.push({
+                type: 'text',
+                text: [...header, '', 'Page Content:', truncated].join('\n'),
+              });
+            }
+
+            // Capture screenshot; a failure is noted without losing the rest of the capture
+            if (captureAction === 'screenshot' || captureAction === 'both') {
+              if (captureAction === 'screenshot') {
+                content.push({ type: 'text', text: header.join('\n') });
+              }
+              try {
+                const { png, note } = await takeScreenshot(page, { fullPage: full_page, selector, timeoutMs: pageTimeoutMs });
+                if (note) content.push({ type: 'text', text: note });
+                content.push({
+                  type: 'image',
+                  data: png.toString('base64'),
+                  mimeType: 'image/png',
+                });
+              } catch (err) {
+                content.push({ type: 'text', text: `Screenshot failed: ${(err instanceof Error ? err.message : String(err)).split('\n')[0]}` });
+              }
+            }
+
+            if (pdf) {
+              try {
+                const document = await renderPdf(page);
+                content.push({
+                  type: 'resource',
+                  resource: { uri: `probeops://geo-browse/${region}/page.pdf`, mimeType: 'application/pdf', blob: document.toString('base64') },
+                });
+              } catch (err) {
+                content.push({ type: 'text', text: `PDF rendering failed: ${(err instanceof Error ? err.message : String(err)).split('\n')[0]}` });
+              }
+            }
+
+            const recorded = stopRecording ? await stopRecording() : null;
+            // The HAR file is written when the context closes
+            try {
+              await context.close();
+              if (harPath) await chmod(harPath, 0o600);
+            } catch (err) {
+              if (!harPath) throw err;
+              content.push({ type: 'text', text: `HAR export failed: ${err instanceof Error ? err.message : err}` });
+              harPath = null;
+            }
+            if (recorded) {
+              content.push({ type: 'text', text: formatNetworkSummary(summarizeNetwork(recorded, finalUrl, harPath)) });
+            }
+            const footer = account.buildQuotaFooter('proxy');
+            if (footer) {
+              const firstText = content.find((c): c is { type: 'text'; text: string } => c.type === 'text');
+              if (firstText) firstText.text += footer;
+            }
+            return { content };
+          } finally {
+            await browser.close();
+          }
+        } catch (playwrightError) {
+          // Playwright detected but failed to launch — fall through to HTTP fallback
+          process.stderr.write(`[probeops] Playwright launch failed, falling back to HTTP: ${playwrightError instanceof Error ? playwrightError.message : playwrightError}\n`);
+        }
+      }
+
+      // Step 3b: HTTP fallback (uses node:https with HttpsProxyAgent)
+      try {
+        const { body } = await fetchViaProxy(url, proxy, deviceDescriptor?.userAgent ?? userAgent, pageTimeoutMs);
+
+        const truncatedHtml = body.length > maxContentChars ? body.slice(0, maxContentChars) + '\n\n... [truncated]' : body;
+
+        const regionCfg = regionConfig[region];
+        return {
+          content: [{
+            type: 'text',
+            text: [
+              `Geo-Browse (HTTP fallback): ${url} from ${region}`,
+              regionCfg ? `Region: ${regionCfg.location} | Timezone: ${regionCfg.timezone} | Locale: ${regionCfg.locale}` : '',
+              `Proxy: ${proxyServer}`,
+              deviceName ? `Device: ${deviceName} (user agent only)` : '',
+              `Quota: ${proxyData.daily_usage.consumed}/${proxyData.daily_usage.quota} tokens used today`,
+              '',
+              hasPlaywright ? '' : 'Note: For full browser rendering with screenshots, install Chromium:\n  npx playwright-core install chromium\n',
+              browserOnlyNote && browserOnlyNote + '\n',
+              'Raw HTML:',
+              truncatedHtml,
+            ].filter(Boolean).join('\n') + account.buildQuotaFooter('proxy'),
+          }],
+        };
+      } catch (fetchError) {
+        const errMsg = fetchError instanceof Error ? fetchError.message : String(fetchError);
+        return {
+          content: [{
+            type: 'text',
+            text: [
+              `Geo-Browse failed for ${url} from ${region}`,
+              '',
+              `Error: ${errMsg}`,
+              '',
+              'To use full browser rendering, install Chromium:',
+              '  npx playwright-core install chromium',
+              '',
+              'Proxy credentials were obtained successfully:',
+              `  Token: ${proxyData.token_id}`,
+              `  Region: ${region}`,
+              `  Proxy: ${proxyServer}`,
+              `  Expires: ${proxyData.expires_at}`,
+              `  Quota: ${proxyData.daily_usage.consumed}/${proxyData.daily_usage.quota} tokens used today`,
+              ...(browserOnlyNote ? ['', browserOnlyNote] : []),
+            ].join('\n'),
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'geo_compare',
+    {
+      description: 'Load the same URL from several regions at once through the geo-proxy and compare the results: final URL, HTTP status, title, language, currency, page load timing and Web Vitals, and a text diff against a reference region. Use it to check geo-pricing, geo-redirects and geo-blocking in one call. One proxy token covers every region. Optional side-by-side screenshots need Chromium.',
+      inputSchema: {
+        url: z.string().describe('URL to load (e.g., "https://example.com/pricing")'),
+        regions: z.array(z.enum(PROBE_REGIONS)).min(2).optional().describe('Regions to compare (default: every region the proxy token has a node for)'),
+        reference_region: z.enum(PROBE_REGIONS).optional().describe('Region the others are diffed against (default: the first region)'),
+        screenshots: z.boolean().optional().describe('Also return every region\'s screenshot side by side in one image (needs Chromium; default: false)'),
+        dry_run: z.boolean().optional().describe('Only check whether a proxy hour would be used and whether one remains; nothing is loaded'),
+        profile: profileParam,
+      },
+      outputSchema: withPreflight(geoCompareOutputSchema),
+    },
+    async ({ url, regions, reference_region, screenshots, dry_run, profile }) => {
+      const account = selectAccount(profile);
+      account.refreshQuotaCache().catch(() => {});
+
+      if (regions && new Set([...regions, ...(reference_region ? [reference_region] : [])]).size < 2) {
+        return { content: [{ type: 'text', text: `geo_compare needs at least two different regions, got: ${[...new Set(regions)].join(', ')}.` }], isError: true };
+      }
+      const hasPlaywright = await hasChromium();
+
+      try {
+        const { preflight, response } = await preflightCheck(account, 'geo_compare', { diagnostic_runs: 0, proxy_hours: account.proxyHoursNeeded() }, dry_run);
+        if (response) return response;
+
+        const proxyData = await account.getOrCreateProxyToken(reference_region ?? regions?.[0] ?? 'us-east');
+        const nodes = proxyData.proxy_nodes ?? {};
+        const selected: ProbeRegion[] = regions ? [...new Set(regions)] : PROBE_REGIONS.filter((r) => nodes[r]);
+        if (reference_region && !selected.includes(reference_region)) selected.unshift(reference_region);
+        if (selected.length < 2) {
+          return { content: [{ type: 'text', text: `geo_compare needs at least two regions, but the proxy token only has nodes for: ${Object.keys(nodes).join(', ') || 'none'}.` }], isError: true };
+        }
+        const reference = reference_region ?? selected[0];
+
+        let browser: Awaited<ReturnType<typeof launchBrowser>> | null = null;
+        if (hasPlaywright) {
+          try {
+            browser = await launchBrowser();
+          } catch (playwrightError) {
+            process.stderr.write(`[probeops] Playwright launch failed, falling back to HTTP: ${playwrightError instanceof Error ? playwrightError.message : playwrightError}\n`);
+          }
+        }
+
+        try {
+          const shots = new Map<string, Buffer>();
+          // The tier caps how many tabs may use the proxy at once
+          const captures = await mapWithConcurrency(selected, Math.max(1, proxyData.concurrent_tabs || 1), async (region): Promise<GeoPageCapture> => {
+            const failed = (error: string): GeoPageCapture => ({ region, final_url: null, status: null, title: null, language: null, text: '', performance: null, error });
+            const server = nodes[region];
+            if (!server) return failed('no proxy node for this region on the current token');
+            const proxy = { server, jwt: proxyData.jwt_token };
+            try {
+              if (browser) {
+                const context = await newGeoContext(browser, proxy, { userAgent, geo: regionConfig[region] });
+                try {
+                  const page = await capturePage(context, url, pageTimeoutMs, !!screenshots);
+                  if (page.screenshot) shots.set(region, page.screenshot);
+                  return { region, final_url: page.finalUrl, status: page.status, title: page.title, language: page.language, text: page.text, performance: page.performance, error: null };
+                } finally {
+                  await context.close();
+                }
+              }
+              const res = await fetchViaProxy(url, proxy, userAgent, pageTimeoutMs);
+              const page = readHtml(res.body);
+              const contentLanguage = res.headers['content-language'];
+              return { region, final_url: res.finalUrl, status: res.status, title: page.title, language: page.language ?? contentLanguage ?? null, text: page.text, performance: null, error: null };
+            } catch (err) {
+              return failed(errorText(err));
+            }
+          });
+
+          const locations = Object.fromEntries(PROBE_REGIONS.map((r) => [r, regionConfig[r].location]));
+          const result = compareGeoPages(url, captures, reference, browser ? 'browser' : 'http', locations);
+          let text = formatGeoCompare(result);
+          if (screenshots && !browser) {
+            text += '\n\nNote: Screenshots need full browser rendering. Install Chromium:\n  npx playwright-core install chromium';
+          }
+          const content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }> = [
+            { type: 'text', text: text + account.buildQuotaFooter('proxy') },
+          ];
+
+          if (browser && shots.size > 0) {
+            const labelled = selected.filter((r) => shots.has(r)).map((r) => ({ label: `${r} (${regionConfig[r].location})`, png: shots.get(r)! }));
+            try {
+              const grid = await composeSideBySide(browser, labelled);
+              content.push({ type: 'image', data: grid.toString('base64'), mimeType: 'image/png' });
+            } catch (err) {
+              // Fall back to one image per region
+              process.stderr.write(`[probeops] Could not combine screenshots: ${err instanceof Error ? err.message : err}\n`);
+              for (const shot of labelled) {
+                content.push({ type: 'text', text: shot.label });
+                content.push({ type: 'image', data: shot.png.toString('base64'), mimeType: 'image/png' });
+              }
+            }
+          }
+          return { content, structuredContent: { ...result, preflight } };
+        } finally {
+          await browser?.close();
+        }
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'account_status',
+    'Show your ProbeOps account status: subscription tier, diagnostic quota (minute/hour/day/month), proxy token quota, and active proxy token details. Use this to check remaining quota before running multiple tools.',
+    { profile: profileParam },
+    async ({ profile }) => {
+      const account = selectAccount(profile);
+      try {
+        // Force-refresh cache (awaited)
+        const q = await account.refreshQuotaCache(true);
+        const activeToken = account.getActiveToken();
+        return { content: [{ type: 'text', text: formatAccountStatus(q, activeToken) }] };
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  // ── History (only when PROBEOPS_HISTORY_DIR is set) ────────
+
+  const history = defaultAccount.history;
+  if (history) {
+    server.registerTool(
+      'history',
+      {
+        description: 'Query past diagnostic results recorded locally. Filter by tool, target, region and time range to answer questions like "what did the certificate look like yesterday" or "has latency from ap-south gotten worse". Does not use any quota.',
+        inputSchema: {
+          tool: z.string().optional().describe('Backend tool name as recorded (e.g., "ssl_check", "is_it_down", "dns_lookup", "ping", "nmap", "tcping")'),
+          target: z.string().optional().describe('Target exactly as it was checked (domain, host, IP or URL; case-insensitive)'),
+          region: z.enum(PROBE_REGIONS).optional().describe('Only show results from this region'),
+          since: z.string().optional().describe('Start of range: ISO timestamp or duration ago like "24h", "7d"'),
+          until: z.string().optional().describe('End of range: ISO timestamp or duration ago'),
+          limit: z.number().int().min(1).max(200).optional().describe('Maximum runs to return, newest first (default: 20)'),
+          profile: profileParam,
+        },
+        outputSchema: historyOutputSchema,
+      },
+      async ({ tool, target, region, since, until, limit, profile }) => {
+        const account = selectAccount(profile);
+        try {
+          const query: HistoryQuery = {
+            tool,
+            target,
+            region,
+            since: since ? parseTimeBound(since) : undefined,
+            until: until ? parseTimeBound(until) : undefined,
+            limit,
+          };
+          // Every account records history when PROBEOPS_HISTORY_DIR is set
+          const entries = await account.history!.query(query);
+          const filter = Object.entries({ tool, target, region, since, until })
+            .filter(([, v]) => v !== undefined)
+            .map(([k, v]) => `${k}=${v}`)
+            .join(' ');
+          return {
+            content: [{ type: 'text', text: formatHistory(entries, filter) }],
+            structuredContent: {
+              entries: entries.map(({ tool: t, target: tg, checked_at, data }) => ({ tool: t, target: tg, checked_at, data })),
+            },
+          };
+        } catch (err) {
+          return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+        }
+      }
+    );
+  }
+
+  // ── Monitors ────────────────────────────────────────────────
+
+  server.registerTool(
+    'create_monitor',
+    {
+      description: 'Re-run a diagnostic on a schedule inside this server and get notified (log message + resource update on probeops://monitors/{id}) when the global status, certificate fingerprint, DNS answers or port states change. Each run uses diagnostic quota; runs are skipped while quota is exhausted. Monitors stop when the server exits.',
+      inputSchema: {
+        tool: z.enum(MONITOR_TOOLS).describe('Backend tool to run (e.g., "ssl_check", "dns_lookup", "is_it_down", "port_check", "nmap")'),
+        target: z.string().describe('Target as the tool expects it (domain for ssl_check/dns_lookup, URL for is_it_down, host for port tools)'),
+        params: z.record(z.string(), z.unknown()).optional().describe('Tool parameters, e.g. {"record_type": "MX"} for dns_lookup, {"port": 443} for port_check, {"ports": "22,80,443"} for nmap'),
+        interval_minutes: z.number().int().min(1).max(1440).default(15).describe('Minutes between checks (1-1440, default: 15)'),
+        regions: regionsParam,
+        label: z.string().max(100).optional().describe('Optional name shown in notifications'),
+        dry_run: z.boolean().optional().describe('Only estimate the quota this call would use and compare it with what remains; nothing is run'),
+        profile: profileParam,
+      },
+      outputSchema: withPreflight(monitorOutputSchema),
+    },
+    async ({ tool, target, params, interval_minutes, regions, label, dry_run, profile }) => {
+      const account = selectAccount(profile);
+      try {
+        const runsPerDay = Math.floor(1440 / interval_minutes);
+        const { preflight, response } = await preflightCheck(account, 'create_monitor', { diagnostic_runs: 1, proxy_hours: 0, recurring_runs_per_day: runsPerDay }, dry_run);
+        if (response) return response;
+        const monitor = await account.monitors.create({ tool, target, params, interval_minutes, regions, label });
+        const text = `${preflightWarnings(preflight)}${formatMonitor(monitor)}\n\n  Uses about ${runsPerDay} diagnostic run${runsPerDay === 1 ? '' : 's'} per day. Subscribe to probeops://monitors/${monitor.id} for change notifications.`;
+        return {
+          content: [{ type: 'text', text: text + account.buildQuotaFooter('diagnostic') }],
+          structuredContent: { ...monitor, preflight },
+        };
+      } catch (err) {
+        return { content: [{ type: 'text', text: errorText(err) }], isError: true };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_monitors',
+    {
+      description: 'List scheduled monitors with their last result, last detected change and next run time. Does not use any quota.',
+      inputSchema: {
+        profile: profileParam,
+      },
+      outputSchema: monitorListOutputSchema,
+    },
+    async ({ profile }) => {
+      const account = selectAccount(profile);
+      const list = account.monitors.list();
+      return {
+        content: [{ type: 'text', text: formatMonitorList(list) }],
+        structuredContent: { monitors: list },
+      };
+    }
+  );
+
+  server.registerTool(
+    'delete_monitor',
+    {
+      description: 'Stop and remove a scheduled monitor.',
+      inputSchema: {
+        id: z.string().describe('Monitor ID from create_monitor or list_monitors (e.g., "mon-1a2b3c4d")'),
+        profile: profileParam,
+      },
+    },
+    async ({ id, profile }) => {
+      const account = selectAccount(profile);
+      if (!account.monitors.delete(id)) {
+        return { content: [{ type: 'text', text: `Monitor ${id} not found. Use list_monitors to see running monitors.` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: `Monitor ${id} deleted.` }] };
+    }
+  );
+
+  // Forward monitor events to this session: every event is logged, and
+  // subscribers of the monitor's resource get an update notification.
+  const subscriptions = new Set<string>();
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unsubscribeMonitors = allAccounts.map((account) => account.monitors.subscribe((event) => {
+    if (!server.isConnected()) return;
+    server.sendLoggingMessage({ level: event.level, logger: 'probeops.monitors', data: event.message }).catch(() => {});
+    for (const uri of [`probeops://monitors/${event.monitor.id}`, 'probeops://monitors']) {
+      if (subscriptions.has(uri)) server.server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+  }));
+  server.server.onclose = () => { unsubscribeMonitors.forEach((unsubscribe) => unsubscribe()); };
+
+  const allMonitors = () => allAccounts.flatMap((account) => account.monitors.list());
+
+  // ── Resources ───────────────────────────────────────────────
+
+  server.resource(
+    'regions',
+    'probeops://regions',
+    { description: 'List of available probe regions with location and status' },
+    async () => {
+      try {
+        const data = await defaultAccount.client.getRegions();
+        return { contents: [{ uri: 'probeops://regions', text: formatRegions(data), mimeType: 'text/plain' }] };
+      } catch (err) {
+        return { contents: [{ uri: 'probeops://regions', text: errorText(err), mimeType: 'text/plain' }] };
+      }
+    }
+  );
+
+  server.resource(
+    'proxy-regions',
+    'probeops://proxy-regions',
+    { description: 'List of available geo-proxy regions with proxy URLs for Playwright/browser proxy usage' },
+    async () => {
+      try {
+        // Fetch a token to get live proxy_nodes map from API
+        const data = await defaultAccount.getOrCreateProxyToken('us-east');
+        if (data.proxy_nodes && Object.keys(data.proxy_nodes).length > 0) {
+          const regions: ProxyRegionInfo[] = Object.entries(data.proxy_nodes).map(([region, url]) => {
+            const fqdn = url.replace(/^https?:\/\//, '').replace(/:.*$/, '');
+            return { region, fqdn, location: region, port: 443 };
+          });
+          return { contents: [{ uri: 'probeops://proxy-regions', text: formatProxyRegions(regions), mimeType: 'text/plain' }] };
+        }
+      } catch { /* fall through to static list */ }
+      // Fallback: static list (only if API unavailable)
+      const fallback: ProxyRegionInfo[] = [
+        { region: 'eu-central', fqdn: 'node-1-eu-central.probeops.com', location: 'Helsinki, Finland', port: 443 },
+        { region: 'us-east', fqdn: 'node-1-us-east.probeops.com', location: 'Ashburn, USA', port: 443 },
+        { region: 'ap-south', fqdn: 'node-1-ap-south.probeops.com', location: 'Mumbai, India', port: 443 },
+        { region: 'us-west', fqdn: 'node-1-us-west.probeops.com', location: 'Oregon, USA', port: 443 },
+        { region: 'ca-central', fqdn: 'node-1-ca-central.probeops.com', location: 'Canada', port: 443 },
+        { region: 'ap-southeast', fqdn: 'node-1-ap-southeast.probeops.com', location: 'Sydney, Australia', port: 443 },
+      ];
+      return { contents: [{ uri: 'probeops://proxy-regions', text: formatProxyRegions(fallback), mimeType: 'text/plain' }] };
+    }
+  );
+
+  server.resource(
+    'usage',
+    'probeops://usage',
+    { description: 'Current API usage and remaining quota for your ProbeOps account (diagnostic + proxy)' },
+    async () => {
+      try {
+        const q = await defaultAccount.refreshQuotaCache(true);
+        const activeToken = defaultAccount.getActiveToken();
+        return { contents: [{ uri: 'probeops://usage', text: formatAccountStatus(q, activeToken), mimeType: 'text/plain' }] };
+      } catch (err) {
+        return { contents: [{ uri: 'probeops://usage', text: errorText(err), mimeType: 'text/plain' }] };
+      }
+    }
+  );
+
+  server.resource(
+    'monitors',
+    'probeops://monitors',
+    { description: 'Scheduled monitors and their latest status' },
+    async () => ({
+      contents: [{ uri: 'probeops://monitors', text: formatMonitorList(allMonitors()), mimeType: 'text/plain' }],
+    })
+  );
+
+  server.resource(
+    'monitor',
+    new ResourceTemplate('probeops://monitors/{id}', {
+      list: async () => ({
+        resources: allMonitors().map((m) => ({
+          uri: `probeops://monitors/${m.id}`,
+          name: m.label || `${m.tool} ${m.target}`,
+        })),
+      }),
+    }),
+    { description: 'Current state and last detected change of a monitor. Subscribe to be notified when it changes.' },
+    async (uri, variables) => {
+      const id = String(variables.id);
+      const monitor = allAccounts.map((account) => account.monitors.get(id)).find((m) => m !== null) ?? null;
+      const text = monitor ? formatMonitor(monitor) : `Monitor ${variables.id} not found.`;
+      return { contents: [{ uri: uri.href, text, mimeType: 'text/plain' }] };
+    }
+  );
+
+  if (history) {
+    server.resource(
+      'history',
+      new ResourceTemplate('probeops://history/{tool}/{target}', {
+        list: async () => ({
+          resources: (await history.recentTargets()).map(({ tool, target }) => ({
+            uri: `probeops://history/${encodeURIComponent(tool)}/${encodeURIComponent(target)}`,
+            name: `${tool} ${target}`,
+          })),
+        }),
+      }),
+      { description: 'Recorded results for a tool and target, newest first (URL-encode targets that contain "/")' },
+      async (uri, variables) => {
+        const tool = decodeURIComponent(String(variables.tool));
+        const target = decodeURIComponent(String(variables.target));
+        try {
+          const entries = await history.query({ tool, target, limit: 50 });
+          return { contents: [{ uri: uri.href, text: formatHistory(entries, `tool=${tool} target=${target}`), mimeType: 'text/plain' }] };
+        } catch (err) {
+          return { contents: [{ uri: uri.href, text: errorText(err), mimeType: 'text/plain' }] };
+        }
+      }
+    );
+  }
+
+  return server;
+}
@@ -0,0 +1,100 @@
+import {
+  ProbeOpsError,
+  V1RunResponse,
+  CertificateInfo,
+  SslExpiryEntry,
+  SslExpiryReport,
+  SslExpiryStatus,
+} from './types.js';
+import { mapWithConcurrency } from './utils.js';
+
+export interface SslExpiryOptions {
+  warningDays: number;
+  criticalDays: number;
+  concurrency: number;
+}
+
+function classify(days: number, isExpired: boolean, opts: SslExpiryOptions): SslExpiryStatus {
+  if (isExpired || days < 0) return 'expired';
+  if (days <= opts.criticalDays) return 'critical';
+  if (days <= opts.warningDays) return 'warning';
+  return 'ok';
+}
+
+function toEntry(domain: string, data: V1RunResponse, opts: SslExpiryOptions): SslExpiryEntry {
+  // Consider every certificate seen from any region: a stale cert on one
+  // edge node expires before the primary one does.
+  const certs: CertificateInfo[] = [
+    ...(data.certificate ? [data.certificate] : []),
+    ...(data.region_certificates || []).map((rc) => rc.certificate).filter((c): c is CertificateInfo => !!c),
+  ];
+  if (certs.length === 0) {
+    const failure = data.regions_checked.find((r) => !r.success)?.error;
+    return {
+      domain, status: 'error', days_until_expiry: null, valid_until: null, issuer: null,
+      hostname_match: null, certificates_consistent: data.certificates_consistent ?? null,
+      flags: [], error: failure || 'Could not retrieve certificate',
+    };
+  }
+
+  const soonest = certs.reduce((a, b) => (b.days_until_expiry < a.days_until_expiry ? b : a));
+  const hostnameMatch = certs.every((c) => c.hostname_match);
+  const flags: string[] = [];
+  if (!hostnameMatch) flags.push('hostname mismatch');
+  if (data.certificates_consistent === false) flags.push('differs across regions');
+  if (certs.some((c) => !c.is_valid)) flags.push('invalid chain');
+
+  return {
+    domain,
+    status: classify(soonest.days_until_expiry, certs.some((c) => c.is_expired), opts),
+    days_until_expiry: soonest.days_until_expiry,
+    valid_until: soonest.valid_until,
+    issuer: soonest.issuer.organization || soonest.issuer.common_name,
+    hostname_match: hostnameMatch,
+    certificates_consistent: data.certificates_consistent ?? null,
+    flags,
+    error: null,
+  };
+}
+
+/**
+ * Check certificates for many domains with bounded concurrency and return
+ * them sorted by soonest expiry. Failures are reported per domain instead of
+ * aborting the whole report.
+ */
+export async function buildSslExpiryReport(
+  domains: string[],
+  opts: SslExpiryOptions,
+  check: (domain: string) => Promise<V1RunResponse>,
+): Promise<SslExpiryReport> {
+  const unique = [...new Set(domains.map((d) => d.trim().toLowerCase()).filter(Boolean))];
+
+  const entries = await mapWithConcurrency(unique, opts.concurrency, async (domain): Promise<SslExpiryEntry> => {
+    try {
+      return toEntry(domain, await check(domain), opts);
+    } catch (err) {
+      const message = err instanceof ProbeOpsError ? `${err.statusCode}: ${err.detail || err.message}` : (err instanceof Error ? err.message : String(err));
+      return {
+        domain, status: 'error', days_until_expiry: null, valid_until: null, issuer: null,
+        hostname_match: null, certificates_consistent: null, flags: [], error: message,
+      };
+    }
+  });
+
+  entries.sort((a, b) => {
+    if (a.days_until_expiry === null) return b.days_until_expiry === null ? a.domain.localeCompare(b.domain) : 1;
+    if (b.days_until_expiry === null) return -1;
+    return a.days_until_expiry - b.days_until_expiry;
+  });
+
+  const summary: Record<SslExpiryStatus, number> = { ok: 0, warning: 0, critical: 0, expired: 0, error: 0 };
+  for (const e of entries) summary[e.status]++;
+
+  return {
+    warning_days: opts.warningDays,
+    critical_days: opts.criticalDays,
+    summary,
+    entries,
+    checked_at: new Date().toISOString(),
+  };
+}
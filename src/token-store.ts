@@ -0,0 +1,151 @@
+import { promises as fs } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { GeoProxyResponse } from './types.js';
+
+export const DEFAULT_TOKEN_CACHE_DIR = join(homedir(), '.cache', 'probeops');
+
+// How long to wait for another process to finish a token operation
+const LOCK_TIMEOUT_MS = 120_000;
+// A lock older than this is abandoned even if its process still exists
+const LOCK_STALE_MS = 5 * 60_000;
+
+interface StoredToken {
+  token: GeoProxyResponse;
+  saved_at: string;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * The cached proxy token of one account, kept in a file readable only by
+ * the current user (`proxy-token-<account>.json`) so restarts and other
+ * server processes on the machine can reuse it. A sibling `.lock` file
+ * (created with O_EXCL) serialises token operations across processes.
+ */
+export class TokenStore {
+  private readonly file: string;
+  private readonly lockFile: string;
+  private ready: Promise<void> | null = null;
+
+  constructor(private dir: string, accountId: string) {
+    this.file = join(dir, `proxy-token-${accountId}.json`);
+    this.lockFile = join(dir, `proxy-token-${accountId}.lock`);
+  }
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.dir, { recursive: true, mode: 0o700 }).then(() => undefined);
+      this.ready.catch(() => { this.ready = null; });
+    }
+    return this.ready;
+  }
+
+  /**
+   * The stored token, or null when there is none or it has expired.
+   * Throws when the file exists but cannot be read.
+   */
+  async read(): Promise<GeoProxyResponse | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.file, 'utf-8');
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT' || code === 'ENOTDIR') return null;
+      throw err;
+    }
+    try {
+      const stored = JSON.parse(raw) as StoredToken;
+      if (!stored.token?.token_id || !(Date.parse(stored.token.expires_at) > Date.now())) return null;
+      return stored.token;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Replace the stored token (or remove it when null). Written to a
+   * temporary file and renamed, so readers never see a partial file.
+   */
+  async write(token: GeoProxyResponse | null): Promise<void> {
+    if (!token) {
+      await fs.rm(this.file, { force: true });
+      return;
+    }
+    await this.ensureDir();
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    const stored: StoredToken = { token, saved_at: new Date().toISOString() };
+    await fs.writeFile(tmp, JSON.stringify(stored), { mode: 0o600 });
+    await fs.rename(tmp, this.file);
+  }
+
+  /**
+   * Run `fn` while holding the cross-process lock. Locks left by a process
+   * that has exited, or older than LOCK_STALE_MS, are broken. If the lock
+   * cannot be taken in time, `fn` runs anyway rather than failing the call.
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const acquired = await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      if (acquired) await fs.rm(this.lockFile, { force: true }).catch(() => {});
+    }
+  }
+
+  private async acquire(): Promise<boolean> {
+    try {
+      await this.ensureDir();
+    } catch (err) {
+      process.stderr.write(`[probeops] Cannot create token cache directory ${this.dir}: ${err instanceof Error ? err.message : err}\n`);
+      return false;
+    }
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        await fs.writeFile(this.lockFile, String(process.pid), { flag: 'wx', mode: 0o600 });
+        return true;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+          process.stderr.write(`[probeops] Cannot lock proxy token cache: ${err instanceof Error ? err.message : err}\n`);
+          return false;
+        }
+      }
+      if (await this.isStale()) {
+        process.stderr.write(`[probeops] Removing stale proxy token lock ${this.lockFile}\n`);
+        await fs.rm(this.lockFile, { force: true }).catch(() => {});
+        continue;
+      }
+      if (Date.now() > deadline) {
+        process.stderr.write(`[probeops] Timed out waiting for proxy token lock ${this.lockFile}, continuing without it\n`);
+        return false;
+      }
+      await sleep(50 + Math.random() * 100);
+    }
+  }
+
+  private async isStale(): Promise<boolean> {
+    try {
+      const [pidText, stat] = await Promise.all([fs.readFile(this.lockFile, 'utf-8'), fs.stat(this.lockFile)]);
+      const pid = parseInt(pidText, 10);
+      if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) return true;
+      // An empty file means the owner is between creating and writing it
+      return !Number.isNaN(pid) && !isProcessAlive(pid);
+    } catch {
+      // Released between our attempt and this check
+      return false;
+    }
+  }
+}
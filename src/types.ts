@@ -3,6 +3,10 @@
 
 // ── Common Types ──────────────────────────────────────────────
 
+export const PROBE_REGIONS = ['eu-central', 'us-east', 'ap-south', 'us-west', 'ca-central', 'ap-southeast'] as const;
+
+export type ProbeRegion = typeof PROBE_REGIONS[number];
+
 export interface RegionResult {
   region: string;
   location?: string;
@@ -33,6 +37,7 @@ export interface RegionInfo {
 
 export interface SslCheckRequest {
   domain: string;
+  regions?: ProbeRegion[];
 }
 
 export interface CertificateInfo {
@@ -78,13 +83,40 @@ export interface SslCheckResponse {
   checked_at: string;
 }
 
+// ── SSL Expiry Report ─────────────────────────────────────────
+
+export type SslExpiryStatus = 'ok' | 'warning' | 'critical' | 'expired' | 'error';
+
+export interface SslExpiryEntry {
+  domain: string;
+  status: SslExpiryStatus;
+  days_until_expiry: number | null;  // Soonest expiry across all regions
+  valid_until: string | null;
+  issuer: string | null;
+  hostname_match: boolean | null;
+  certificates_consistent: boolean | null;
+  flags: string[];                   // e.g. "hostname mismatch", "differs across regions"
+  error: string | null;
+}
+
+export interface SslExpiryReport {
+  warning_days: number;
+  critical_days: number;
+  summary: Record<SslExpiryStatus, number>;
+  entries: SslExpiryEntry[];         // Soonest expiry first, errors last
+  checked_at: string;
+}
+
 // ── DNS Lookup ────────────────────────────────────────────────
 
-export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS' | 'SOA' | 'CAA' | 'PTR';
+export const DNS_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'SOA', 'CAA', 'PTR'] as const;
+
+export type DnsRecordType = typeof DNS_RECORD_TYPES[number];
 
 export interface DnsLookupRequest {
   domain: string;
   record_type?: DnsRecordType;
+  regions?: ProbeRegion[];
 }
 
 export interface DnsLookupResponse {
@@ -97,10 +129,117 @@ export interface DnsLookupResponse {
   checked_at: string;
 }
 
+// ── DNS Propagation ───────────────────────────────────────────
+
+export type DnsMatchMode = 'exact' | 'contains';
+
+export interface DnsAnswerGroup {
+  answers: string[];        // Normalised, sorted answer set
+  regions: string[];
+  matches_expected?: boolean;
+}
+
+export interface DnsPropagationResult {
+  domain: string;
+  record_type: string;
+  expected: string[] | null;
+  match_mode: DnsMatchMode;
+  consistent: boolean;       // At least one region answered and all responding regions returned the same answer set
+  propagated: boolean | null; // All responding regions match `expected` (null when not given)
+  groups: DnsAnswerGroup[];  // Largest group first
+  mismatched_regions: string[];
+  failed_regions: Array<{ region: string; error: string }>;
+  locked_regions: string[];
+  execution_time_ms: number;
+  checked_at: string;
+}
+
+// ── Email Authentication Audit ───────────────────────────────
+
+export type AuditStatus = 'pass' | 'warn' | 'fail';
+
+export interface AuditFinding {
+  check: 'spf' | 'dmarc' | 'dkim' | 'mx';
+  status: AuditStatus;
+  message: string;
+}
+
+export interface SpfRecord {
+  record: string;
+  all: string | null;        // Qualified "all" term, e.g. "~all"
+  includes: string[];        // Direct include: domains
+  redirect: string | null;
+  lookup_count: number;      // DNS-querying terms across the include tree (RFC 7208 limit: 10)
+  include_depth: number;     // Deepest include/redirect nesting
+}
+
+export interface DmarcRecord {
+  record: string;
+  policy: string | null;
+  subdomain_policy: string | null;
+  pct: number;
+  rua: string[];
+  ruf: string[];
+  adkim: string;
+  aspf: string;
+}
+
+export interface DkimSelectorResult {
+  selector: string;
+  record: string | null;
+  key_type: string | null;
+  has_key: boolean;          // false when missing or revoked (empty p=)
+}
+
+export interface EmailAuthAudit {
+  domain: string;
+  status: AuditStatus;       // Worst finding
+  findings: AuditFinding[];
+  spf: SpfRecord | null;
+  dmarc: DmarcRecord | null;
+  dkim: DkimSelectorResult[];
+  mx: DnsAnswerGroup[];      // MX answer sets grouped by region
+  diagnostic_runs: number;   // Diagnostic runs used by the audit
+  checked_at: string;
+}
+
+// ── Site Diagnosis ────────────────────────────────────────────
+
+export type DiagnosisCheck = 'http' | 'dns' | 'tls' | 'tcp' | 'traceroute';
+
+export type RegionCheckState = 'ok' | 'fail' | 'mismatch' | 'skipped';
+
+export interface DiagnosisCheckResult {
+  check: DiagnosisCheck;
+  tool: string;                     // Backend tool that ran
+  status: 'ok' | 'issue' | 'error' | 'skipped';
+  summary: string;
+  error: string | null;             // Set when the sub-check itself failed
+}
+
+export interface LikelyCause {
+  cause: string;
+  confidence: 'high' | 'medium' | 'low';
+  regions: string[];                // Regions the cause applies to
+  evidence: string[];
+}
+
+export interface SiteDiagnosis {
+  url: string;
+  host: string;
+  port: number;
+  likely_causes: LikelyCause[];     // Most likely first
+  checks: DiagnosisCheckResult[];
+  regions: Array<{ region: string } & Record<DiagnosisCheck, RegionCheckState>>;
+  diagnostic_runs: number;
+  checked_at: string;
+}
+
 // ── Is It Down ────────────────────────────────────────────────
 
 export interface IsItDownRequest {
   url: string;
+  regions?: ProbeRegion[];
 }
 
 export interface IsItDownResponse {
@@ -117,6 +256,7 @@ export interface IsItDownResponse {
 
 export interface LatencyTestRequest {
   target: string;
+  regions?: ProbeRegion[];
 }
 
 export interface LatencyTestResponse {
@@ -138,22 +278,66 @@ export type TracerouteProtocol = 'tcp' | 'udp' | 'icmp';
 export interface TracerouteRequest {
   target: string;
   protocol?: TracerouteProtocol;
+  regions?: ProbeRegion[];
+}
+
+export interface TracerouteHop {
+  hop: number;
+  host: string | null;         // Reverse DNS name, or the IP when none was printed
+  ip: string | null;
+  rtts_ms: number[];
+  timeouts: number;            // Probes answered with "*"
+  avg_rtt_ms: number | null;
+}
+
+export interface TracerouteTrace {
+  region: string;
+  destination_ip: string | null;
+  reached: boolean;
+  hops: TracerouteHop[];
+  largest_jump: { from_hop: number; to_hop: number; increase_ms: number } | null;
+  timeout_runs: Array<{ from_hop: number; to_hop: number }>;   // Consecutive "* * *" hops
+  last_responding_hop: TracerouteHop | null;                   // Set when the target was not reached
 }
 
 export interface TracerouteResponse {
   target: string;
   regions_checked: RegionResult[];
   regions_locked: LockedRegion[];
+  traces?: TracerouteTrace[];  // Parsed per-region hops (added by the MCP server)
   is_authenticated: boolean;
   execution_time_ms: number;
   checked_at: string;
 }
 
+// ── Ping ──────────────────────────────────────────────────────
+
+export interface PingStats {
+  region: string;
+  transmitted: number;
+  received: number;
+  loss_percent: number;
+  min_ms: number | null;     // RTT fields are null when no reply came back
+  avg_ms: number | null;
+  max_ms: number | null;
+  mdev_ms: number | null;    // mdev (Linux) or stddev (BSD); null when not printed
+}
+
+export interface PingSummary {
+  stats: PingStats[];
+  failed_regions: Array<{ region: string; error: string }>;
+  avg_loss_percent: number | null;   // Mean loss across parsed regions
+  min_ms: number | null;             // Lowest min RTT across regions
+  avg_ms: number | null;             // Mean of the regions' average RTTs
+  max_ms: number | null;             // Highest max RTT across regions
+}
+
 // ── Port Check ────────────────────────────────────────────────
 
 export interface PortCheckRequest {
   target: string;
   port: number;
+  regions?: ProbeRegion[];
 }
 
 export interface PortCheckResponse {
@@ -167,6 +351,53 @@ export interface PortCheckResponse {
   checked_at: string;
 }
 
+// ── Nmap Port Matrix ──────────────────────────────────────────
+
+export interface NmapPort {
+  port: number;
+  protocol: string;
+  state: string;             // open, closed, filtered, open|filtered, ...
+  service: string | null;
+}
+
+export interface PortMatrixRow {
+  port: number;
+  protocol: string;
+  service: string | null;
+  states: Record<string, string>;   // region → state
+  inconsistent: boolean;            // Open from some regions, not from others
+}
+
+export interface PortMatrix {
+  regions: string[];                // Regions with a parsed port table
+  rows: PortMatrixRow[];
+  inconsistent_ports: string[];     // "port/proto" of inconsistent rows
+  failed_regions: Array<{ region: string; error: string }>;
+}
+
+// ── WHOIS ─────────────────────────────────────────────────────
+
+export interface WhoisRecord {
+  registrar: string | null;
+  created: string | null;           // ISO timestamps when the registry date could be parsed
+  updated: string | null;
+  expires: string | null;
+  days_until_expiry: number | null;
+  nameservers: string[];            // Lowercased, no trailing dot
+  statuses: string[];               // EPP status codes, e.g. clientTransferProhibited
+  dnssec: string | null;            // As reported, lowercased (e.g. "unsigned", "signeddelegation")
+}
+
+export interface WhoisAnalysis {
+  record: WhoisRecord | null;       // Null when no region returned parseable WHOIS data
+  source_region: string | null;
+  expiry_warning_days: number;
+  dns_nameservers: string[] | null; // NS answers seen from probe regions (null when not compared)
+  nameservers_only_in_whois: string[];
+  nameservers_only_in_dns: string[];
+  warnings: string[];
+}
+
 // ── API v1 Unified Response ───────────────────────────────────
 
 export interface V1QuotaLimits {
@@ -208,6 +439,74 @@ export interface V1RunResponse {
   max_latency_ms?: number;
 }
 
+// ── Result History ────────────────────────────────────────────
+
+export interface HistoryEntry {
+  account: string;           // Short hash of the API key that ran it
+  tool: string;
+  target: string;
+  checked_at: string;
+  data: V1RunResponse;
+}
+
+export interface HistoryQuery {
+  tool?: string;
+  target?: string;
+  region?: string;           // Only runs that include this region (other regions are dropped)
+  since?: number;            // Unix ms, inclusive
+  until?: number;            // Unix ms, inclusive
+  limit?: number;            // Newest first (default 20)
+}
+
+// ── Monitors ──────────────────────────────────────────────────
+
+// Backend tool names a monitor can schedule through /api/v1/run
+export const MONITOR_TOOLS = [
+  'ssl_check', 'dns_lookup', 'is_it_down', 'latency_test', 'port_check', 'ping',
+  'nmap', 'tcping', 'keyword_check', 'websocket_check', 'banner_grab', 'api_health',
+] as const;
+
+export type MonitorTool = typeof MONITOR_TOOLS[number];
+
+export interface MonitorSpec {
+  tool: MonitorTool;
+  target: string;
+  params?: Record<string, unknown>;
+  regions?: ProbeRegion[];
+  interval_minutes: number;
+  label?: string;
+}
+
+/**
+ * The parts of a run a monitor compares between checks. Fields are only
+ * present when the tool reports them.
+ */
+export interface MonitorState {
+  global_status?: string;
+  certificate_fingerprint?: string | null;
+  dns_answers?: Record<string, string[]>;    // region → sorted answers
+  port_states?: Record<string, string>;      // "region port/proto" → open/closed/filtered
+}
+
+export interface MonitorInfo extends MonitorSpec {
+  id: string;
+  created_at: string;
+  last_run_at: string | null;
+  next_run_at: string | null;
+  runs: number;
+  skipped_runs: number;
+  last_error: string | null;
+  last_state: MonitorState | null;
+  last_change_at: string | null;
+  last_changes: string[];
+}
+
+export interface MonitorEvent {
+  monitor: MonitorInfo;
+  level: 'info' | 'warning' | 'error';
+  message: string;
+}
+
 // ── Geo Proxy ─────────────────────────────────────────────────
 
 export interface GeoProxyRequest {
@@ -254,6 +553,20 @@ export interface GeoProxyResponse {
   extensions_count?: number;
 }
 
+export interface ProxyTokenSummary {
+  token_id: string;
+  label: string | null;
+  region: string;
+  created_at: string;
+  expires_at: string;
+  is_active: boolean;
+  extensions_count?: number;
+}
+
+export interface ProxyTokenListResponse {
+  tokens: ProxyTokenSummary[];
+}
+
 // ── Regions ───────────────────────────────────────────────────
 
 export interface RegionsResponse {
@@ -293,11 +606,44 @@ export interface CachedQuota {
   fetchedAt: number;
 }
 
+// ── Quota Preflight ───────────────────────────────────────────
+
+export interface QuotaEstimate {
+  diagnostic_runs: number;          // Runs the call will use at least
+  diagnostic_runs_max?: number;     // Upper bound when the count depends on results
+  proxy_hours: number;              // New proxy token hours (0 when a cached token is reused)
+  recurring_runs_per_day?: number;  // Ongoing cost of a monitor
+}
+
+export interface PreflightResult {
+  estimate: QuotaEstimate;
+  verdict: 'ok' | 'warn' | 'block';
+  remaining: { minute: number; hour: number; day: number; month: number } | null;  // null when quota is unknown
+  proxy_hours_remaining: number | null;
+  messages: string[];
+}
+
 // ── API Client Config ─────────────────────────────────────────
 
+export interface RetryOptions {
+  maxRetries?: number;   // Retries after the first attempt (0 disables, default 3)
+  baseDelayMs?: number;  // First backoff step before jitter (default 500)
+  maxDelayMs?: number;   // Longest single wait; a longer Retry-After gives up (default 60000)
+  maxElapsedMs?: number; // No retry starts once this long has passed since the first attempt (default 60000)
+}
+
+/** The subset of `fetch` the client uses; swapped out for record/replay/mock modes */
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
 export interface ProbeOpsConfig {
   apiKey: string;
   baseUrl?: string;
+  retry?: RetryOptions;
+  requestTimeoutMs?: number;             // Per-attempt timeout (default 45000)
+  defaultRegions?: ProbeRegion[];        // Used when a run names no regions (default: all the tier allows)
+  defaultRecordType?: DnsRecordType;     // Used when a DNS lookup names no record type (default A)
+  onRun?: (data: V1RunResponse) => void; // Called after every successful /api/v1/run
+  fetch?: FetchFn;                       // Defaults to the global fetch
 }
 
 // ── Proxy Region Info ─────────────────────────────────────────
@@ -309,6 +655,135 @@ export interface ProxyRegionInfo {
   port: number;
 }
 
+// ── Browser Geo-Emulation ──────────────────────────────────
+
+export interface RegionGeo {
+  timezone: string;
+  locale: string;
+  lat: number;
+  lng: number;
+  location: string;
+}
+
+// ── Geo Browse Steps ──────────────────────────────────────────
+
+/** A scripted interaction run after the page loads and before capture */
+export type BrowseStep =
+  | { action: 'click'; selector: string; timeout_ms?: number }
+  | { action: 'fill'; selector: string; value: string; timeout_ms?: number }
+  | { action: 'press'; key: string; selector?: string; timeout_ms?: number }
+  | { action: 'wait_for_selector'; selector: string; state?: 'attached' | 'detached' | 'visible' | 'hidden'; timeout_ms?: number }
+  | { action: 'wait_for_network_idle'; timeout_ms?: number }
+  | { action: 'wait'; ms: number }
+  | { action: 'scroll'; selector?: string; to?: 'top' | 'bottom'; timeout_ms?: number }
+  | { action: 'dismiss_consent'; timeout_ms?: number };
+
+export interface StepOutcome {
+  step: number;                     // 1-based position in the steps array
+  action: BrowseStep['action'];
+  target: string | null;            // Selector or key; fill values are never echoed
+  status: 'ok' | 'failed' | 'skipped';
+  detail: string | null;            // What happened, or why it failed
+  duration_ms: number;
+}
+
+// ── Page Performance ──────────────────────────────────────────
+
+/**
+ * Navigation timing and Core Web Vitals measured in the browser. Timings
+ * include the proxy hop; null when the page never reached that point.
+ */
+export interface PagePerformance {
+  dns_ms: number | null;
+  connect_ms: number | null;
+  tls_ms: number | null;
+  ttfb_ms: number | null;
+  dom_content_loaded_ms: number | null;
+  load_ms: number | null;
+  lcp_ms: number | null;            // Largest Contentful Paint
+  cls: number | null;               // Cumulative Layout Shift (sum of shifts without recent input)
+  inp_ms: number | null;            // Slowest interaction; null unless steps interacted with the page
+}
+
+// ── Network Capture ───────────────────────────────────────────
+
+export interface NetworkRequestEntry {
+  url: string;
+  method: string;
+  resource_type: string;            // document, script, stylesheet, image, fetch, xhr, ...
+  domain: string;
+  initiator: string | null;         // Host of the document that made the request
+  third_party: boolean;             // Different site from the page that was browsed
+  status: number | null;            // null when no response arrived
+  size_bytes: number | null;        // Response headers + body as transferred
+  duration_ms: number | null;       // Request start to response end
+  failure: string | null;           // Network error, e.g. net::ERR_BLOCKED_BY_CLIENT
+}
+
+export interface ThirdPartyDomain {
+  domain: string;
+  requests: number;
+  bytes: number;
+  failed: number;
+}
+
+export interface NetworkSummary {
+  total_requests: number;
+  total_bytes: number;
+  pending_requests: number;         // Still in flight when the page was captured
+  failed_count: number;
+  failed: NetworkRequestEntry[];    // Network errors and HTTP 4xx/5xx (first few)
+  slowest: NetworkRequestEntry[];
+  third_party_domains: ThirdPartyDomain[];  // Most requests first
+  har_path: string | null;
+}
+
+// ── Geo Compare ───────────────────────────────────────────────
+
+/** One region's load of a page through its proxy node */
+export interface GeoPageCapture {
+  region: string;
+  final_url: string | null;
+  status: number | null;            // HTTP status of the final document
+  title: string | null;
+  language: string | null;          // <html lang>, else Content-Language
+  text: string;                     // Visible text (text extracted from raw HTML without a browser)
+  performance: PagePerformance | null;  // Browser rendering only
+  error: string | null;
+}
+
+export interface TextDiff {
+  identical: boolean;
+  similarity: number;               // 0-1, share of lines the two pages have in common
+  added: string[];                  // Lines only in this region (first few)
+  removed: string[];                // Lines only in the reference region (first few)
+  added_count: number;
+  removed_count: number;
+}
+
+export interface GeoCompareRegion {
+  region: string;
+  location: string;
+  final_url: string | null;
+  status: number | null;
+  title: string | null;
+  language: string | null;
+  currency: string | null;          // Most frequent currency on the page
+  currencies: string[];             // Every currency seen, most frequent first
+  diff: TextDiff | null;            // Against the reference; null for the reference itself or on error
+  performance: PagePerformance | null;
+  error: string | null;
+}
+
+export interface GeoCompareResult {
+  url: string;
+  reference_region: string;
+  renderer: 'browser' | 'http';     // http: no Chromium, raw HTML fetched through the proxy
+  regions: GeoCompareRegion[];
+  differences: string[];            // Human-readable list of what differs from the reference
+  compared_at: string;
+}
+
 // ── API Error ─────────────────────────────────────────────────
 
 export class ProbeOpsError extends Error {